@@ -0,0 +1,116 @@
+// Headless batch detection over a folder of images or a video file.
+//
+//   npm run detect:batch -- <input> [--out results.jsonl] [--min-score 0.5]
+//                            [--base lite_mobilenet_v2] [--model-url file:///models/model.json]
+//                            [--fps 2]
+//
+// Writes one JSON line per detection. Video inputs are split into frames with ffmpeg first.
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import * as tf from '@tensorflow/tfjs';
+import type { ObjectDetectionBaseModel } from '@tensorflow-models/coco-ssd';
+import { DetectionEngine } from '../lib/detection/engine';
+import { loadCocoSsdModel } from '../lib/detection/model';
+import { decodeImageFile, registerFileLoader } from './node-io';
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png']);
+const VIDEO_EXTENSIONS = new Set(['.mp4', '.mov', '.webm', '.mkv', '.avi']);
+
+const usage = () => {
+  console.error('Usage: detect-batch <folder|image|video> [--out file.jsonl] [--min-score 0.5] [--base lite_mobilenet_v2] [--model-url url] [--fps 2]');
+  process.exit(1);
+};
+
+const extractFrames = (video: string, fps: number): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'detect-batch-'));
+  const result = spawnSync('ffmpeg', ['-loglevel', 'error', '-i', video, '-vf', `fps=${fps}`, path.join(dir, '%06d.png')], { stdio: 'inherit' });
+  if (result.error || result.status !== 0) {
+    throw new Error(`ffmpeg failed to extract frames from ${video}${result.error ? `: ${result.error.message}` : ''}`);
+  }
+  return dir;
+};
+
+const listImages = (dir: string): string[] =>
+  fs.readdirSync(dir)
+    .filter(name => IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase()))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(name => path.join(dir, name));
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      'min-score': { type: 'string', default: '0.5' },
+      base: { type: 'string', default: 'lite_mobilenet_v2' },
+      'model-url': { type: 'string' },
+      fps: { type: 'string', default: '2' },
+    },
+  });
+  const [input] = positionals;
+  if (!input) usage();
+
+  const fps = Number(values.fps);
+  let frameDir: string | null = null;
+  let files: string[];
+  if (fs.statSync(input).isDirectory()) {
+    files = listImages(input);
+  } else if (VIDEO_EXTENSIONS.has(path.extname(input).toLowerCase())) {
+    frameDir = extractFrames(input, fps);
+    files = listImages(frameDir);
+  } else {
+    files = [input];
+  }
+
+  registerFileLoader();
+  await tf.setBackend('cpu');
+  await tf.ready();
+  const model = await loadCocoSsdModel({
+    base: values.base as ObjectDetectionBaseModel,
+    modelUrl: values['model-url'],
+  }, status => console.error(status));
+  const engine = new DetectionEngine({ model, minScore: Number(values['min-score']) });
+
+  const out = values.out ? fs.createWriteStream(values.out) : process.stdout;
+  let total = 0;
+  try {
+    for (const [index, file] of files.entries()) {
+      const image = decodeImageFile(file);
+      try {
+        // Video frames carry their position in the clip; still images do not
+        const timestamp = frameDir ? (index / fps) * 1000 : index;
+        const detections = await engine.processFrame(image, timestamp);
+        for (const { bbox, class: className, score, distance, distanceStd, direction } of detections) {
+          out.write(JSON.stringify({
+            file: frameDir ? path.basename(file) : file,
+            frame: index,
+            ...(frameDir ? { time: timestamp / 1000 } : {}),
+            class: className,
+            score: Number(score.toFixed(4)),
+            bbox: bbox.map(value => Math.round(value)),
+            distance: Number(distance.toFixed(2)),
+            distanceStd: Number((distanceStd ?? 0).toFixed(2)),
+            direction,
+          }) + '\n');
+        }
+        total += detections.length;
+      } finally {
+        image.dispose();
+      }
+      console.error(`[${index + 1}/${files.length}] ${path.basename(file)}`);
+    }
+  } finally {
+    if (out !== process.stdout) out.end();
+    if (frameDir) fs.rmSync(frameDir, { recursive: true, force: true });
+    model.dispose?.();
+  }
+  console.error(`Done: ${total} detections in ${files.length} frames`);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
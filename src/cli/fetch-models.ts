@@ -0,0 +1,66 @@
+// Download the COCO-SSD weights into public/models so the app can serve them itself.
+//
+//   npm run fetch:models -- [--base lite_mobilenet_v2] [--out public/models]
+//
+// Writes model.json, the weight shards and an integrity.json with SRI hashes that the
+// app checks every file against when it downloads the model.
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ObjectDetectionBaseModel } from '@tensorflow-models/coco-ssd';
+import { COCO_SSD_CDN_URLS } from '../lib/detection/model';
+
+const download = async (url: string): Promise<Buffer> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+};
+
+const sriHash = (data: Buffer): string => `sha256-${crypto.createHash('sha256').update(data).digest('base64')}`;
+
+const fetchModel = async (base: ObjectDetectionBaseModel, outDir: string) => {
+  const modelUrl = COCO_SSD_CDN_URLS[base];
+  const dir = path.join(outDir, 'coco-ssd', base);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const modelJson = await download(modelUrl);
+  const files: [string, Buffer][] = [['model.json', modelJson]];
+  const { weightsManifest } = JSON.parse(modelJson.toString('utf8')) as { weightsManifest: { paths: string[] }[] };
+  for (const shard of weightsManifest.flatMap(group => group.paths)) {
+    console.error(`${base}: ${shard}`);
+    files.push([shard, await download(new URL(shard, modelUrl).href)]);
+  }
+
+  const integrity: Record<string, string> = {};
+  for (const [name, data] of files) {
+    fs.writeFileSync(path.join(dir, name), data);
+    integrity[name] = sriHash(data);
+  }
+  fs.writeFileSync(path.join(dir, 'integrity.json'), JSON.stringify(integrity, null, 2) + '\n');
+  console.log(`${base}: ${files.length} files written to ${dir}`);
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      base: { type: 'string', multiple: true },
+      out: { type: 'string', default: path.join('public', 'models') },
+    },
+  });
+
+  const bases = (values.base ?? Object.keys(COCO_SSD_CDN_URLS)) as ObjectDetectionBaseModel[];
+  for (const base of bases) {
+    if (!(base in COCO_SSD_CDN_URLS)) {
+      throw new Error(`Unknown COCO-SSD base "${base}"`);
+    }
+    await fetchModel(base, values.out);
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
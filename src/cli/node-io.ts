@@ -0,0 +1,49 @@
+// Node-only helpers shared by the command-line tools
+import fs from 'node:fs';
+import path from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+
+// Serve file:// model URLs from disk, since plain TF.js only knows how to fetch over HTTP
+export const registerFileLoader = () => {
+  tf.io.registerLoadRouter(url => {
+    if (typeof url !== 'string' || !url.startsWith('file://')) return null;
+    const modelPath = new URL(url).pathname;
+    return {
+      load: async () => {
+        const json = JSON.parse(fs.readFileSync(modelPath, 'utf8'));
+        const weightSpecs = json.weightsManifest.flatMap(group => group.weights);
+        const shards = json.weightsManifest.flatMap(group =>
+          group.paths.map(shard => fs.readFileSync(path.join(path.dirname(modelPath), shard))));
+        const weightData = Buffer.concat(shards);
+        return {
+          modelTopology: json.modelTopology,
+          format: json.format,
+          generatedBy: json.generatedBy,
+          convertedBy: json.convertedBy,
+          weightSpecs,
+          weightData: weightData.buffer.slice(weightData.byteOffset, weightData.byteOffset + weightData.byteLength),
+        };
+      },
+    };
+  });
+};
+
+// Decode a JPEG/PNG buffer into an RGB tensor
+export const decodeImage = (buffer: Buffer, png: boolean): tf.Tensor3D => {
+  const { width, height, data } = png ? PNG.sync.read(buffer) : jpeg.decode(buffer, { useTArray: true });
+  return tf.tidy(() => tf.tensor3d(new Uint8Array(data), [height, width, 4], 'int32').slice([0, 0, 0], [-1, -1, 3]));
+};
+
+export const decodeImageFile = (file: string): tf.Tensor3D =>
+  decodeImage(fs.readFileSync(file), path.extname(file).toLowerCase() === '.png');
+
+// Frames recorded in the browser are data URLs; anything else is a path relative to the recording
+export const decodeImageSource = (source: string, baseDir: string): tf.Tensor3D => {
+  const match = /^data:image\/(\w+);base64,(.*)$/.exec(source);
+  if (match) {
+    return decodeImage(Buffer.from(match[2], 'base64'), match[1] === 'png');
+  }
+  return decodeImageFile(path.resolve(baseDir, source));
+};
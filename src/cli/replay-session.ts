@@ -0,0 +1,108 @@
+// Replays a recorded session through the detection pipeline and diffs the output.
+//
+//   npm run replay:session -- <session.json> [--min-iou 0.5] [--max-distance-delta 0.5]
+//                             [--allow-class-change] [--base lite_mobilenet_v2] [--model-url url]
+//
+// The pipeline is rebuilt from the settings stored in the recording. Exits with status 1 when any
+// frame differs beyond the tolerances.
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import * as tf from '@tensorflow/tfjs';
+import type { ObjectDetectionBaseModel } from '@tensorflow-models/coco-ssd';
+import { DepthEstimator, loadDepthModel } from '../lib/detection/depth';
+import { DetectionEngine } from '../lib/detection/engine';
+import { GroundPlaneEstimator } from '../lib/detection/ground';
+import { loadCocoSsdModel } from '../lib/detection/model';
+import type { SessionRecording } from '../lib/detection/recording';
+import { describeIssue, replaySession } from '../lib/detection/replay';
+import { DetectionSmoother } from '../lib/detection/smoothing';
+import { ObjectTracker } from '../lib/detection/tracker';
+import { decodeImageSource, registerFileLoader } from './node-io';
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'min-iou': { type: 'string', default: '0.5' },
+      'max-distance-delta': { type: 'string', default: '0.5' },
+      'allow-class-change': { type: 'boolean', default: false },
+      'min-score': { type: 'string' },  // Overrides the recorded one
+      base: { type: 'string' },
+      'model-url': { type: 'string' },
+    },
+  });
+  const [file] = positionals;
+  if (!file) {
+    console.error('Usage: replay-session <session.json> [--min-iou 0.5] [--max-distance-delta 0.5] [--allow-class-change]');
+    process.exit(1);
+  }
+
+  const recording: SessionRecording = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const recordedBase = /^coco-ssd\/(\w+)/.exec(recording.model)?.[1];
+
+  registerFileLoader();
+  await tf.setBackend('cpu');
+  await tf.ready();
+  const model = await loadCocoSsdModel({
+    base: (values.base ?? recordedBase) as ObjectDetectionBaseModel,
+    modelUrl: values['model-url'],
+  }, status => console.error(status));
+
+  // Same pipeline as the app, with the settings it had when recording started
+  const pipeline = recording.pipeline ?? { engine: {} };
+  const tracker = new ObjectTracker(pipeline.tracker);
+  const smoother = new DetectionSmoother(pipeline.smoothing);
+  const groundPlane = new GroundPlaneEstimator(pipeline.groundPlane);
+  groundPlane.setCalibration(pipeline.engine.calibration ?? null);
+  const depthEstimator = new DepthEstimator(pipeline.depth);
+  if (pipeline.engine.sizes) {
+    groundPlane.setSizes(pipeline.engine.sizes);
+    depthEstimator.setSizes(pipeline.engine.sizes);
+  }
+  if (pipeline.depth?.enabled) {
+    if (pipeline.depth.model) {
+      depthEstimator.setModel(await loadDepthModel(pipeline.depth.model));
+    } else {
+      console.error('The depth model was loaded from local files and cannot be replayed; distances may differ');
+    }
+  }
+  const engine = new DetectionEngine({
+    ...pipeline.engine,
+    model,
+    ...(values['min-score'] !== undefined && { minScore: Number(values['min-score']) }),
+    postprocessors: [tracker.process, groundPlane.process, depthEstimator.process, smoother.process],
+    refiners: [depthEstimator.refresh],
+  });
+
+  const baseDir = path.dirname(path.resolve(file));
+  const tensors: tf.Tensor[] = [];
+  try {
+    const report = await replaySession(recording, engine, async frame => {
+      // Recorded pitches are replayed as a fixed pitch per frame; frames without one had no sensor reading yet
+      groundPlane.setOptions(frame.pitch === undefined ? { pitchSource: 'sensor' } : { pitchSource: 'manual', pitch: frame.pitch });
+      tf.dispose(tensors.splice(0));
+      const image = decodeImageSource(frame.image, baseDir);
+      tensors.push(image);
+      return image;
+    }, {
+      minIoU: Number(values['min-iou']),
+      maxDistanceDelta: Number(values['max-distance-delta']),
+      allowClassChange: values['allow-class-change'],
+    });
+
+    for (const { index, timestamp, issues } of report.failedFrames) {
+      console.log(`frame ${index} (${Math.round(timestamp)}ms): ${issues.map(describeIssue).join('; ')}`);
+    }
+    console.log(`${report.frames - report.failedFrames.length}/${report.frames} frames match the recording`);
+    process.exitCode = report.passed ? 0 : 1;
+  } finally {
+    tf.dispose(tensors);
+    model.dispose?.();
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BACKENDS, type BackendPreference, type BenchmarkRecord } from '@/lib/detection/backends';
+
+interface BackendSettingsProps {
+  value: BackendPreference;
+  onChange: (backend: BackendPreference) => void;
+  benchmark: BenchmarkRecord | null;
+  onRerun: () => void;
+  disabled?: boolean;
+}
+
+const BACKEND_LABELS: Record<BackendPreference, string> = {
+  auto: 'Auto (fastest)',
+  webgl: 'WebGL',
+  wasm: 'WebAssembly',
+  cpu: 'CPU',
+};
+
+const BackendSettings: React.FC<BackendSettingsProps> = ({ value, onChange, benchmark, onRerun, disabled }) => (
+  <div>
+    <label className="text-sm font-medium mb-2 block">Inference Backend</label>
+    <div className="flex gap-2">
+      <Select value={value} onValueChange={(backend) => onChange(backend as BackendPreference)} disabled={disabled}>
+        <SelectTrigger className="flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(['auto', ...BACKENDS] as BackendPreference[]).map(backend => (
+            <SelectItem key={backend} value={backend}>{BACKEND_LABELS[backend]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" onClick={onRerun} disabled={disabled} className="gap-2">
+        <Gauge className="w-4 h-4" />
+        Benchmark
+      </Button>
+    </div>
+
+    {benchmark && (
+      <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+        {benchmark.results.map(result => (
+          <div
+            key={result.backend}
+            className={`p-2 rounded border text-center ${result.backend === benchmark.backend ? 'border-primary' : 'border-border'}`}
+            title={result.error}
+          >
+            <div className="font-medium">{BACKEND_LABELS[result.backend]}</div>
+            <div className="text-muted-foreground">
+              {result.latency !== null ? `${result.latency.toFixed(0)}ms` : 'Unavailable'}
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default BackendSettings;
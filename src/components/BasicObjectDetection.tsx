@@ -1,279 +1,139 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/sonner';
+import BackendSettings from '@/components/BackendSettings';
+import CalibrationWizard from '@/components/CalibrationWizard';
+import DetectorSettings, { type DetectorSettingsValue } from '@/components/DetectorSettings';
+import RegionEditor from '@/components/RegionEditor';
+import SmoothingSettings from '@/components/SmoothingSettings';
+import SizeDatabaseSettings from '@/components/SizeDatabaseSettings';
+import CascadeSettings from '@/components/CascadeSettings';
+import PoseSettings from '@/components/PoseSettings';
+import DepthSettings from '@/components/DepthSettings';
+import GroundPlaneSettings from '@/components/GroundPlaneSettings';
+import RedactionSettings from '@/components/RedactionSettings';
+import ClassFilterSettings from '@/components/ClassFilterSettings';
+import { Progress } from '@/components/ui/progress';
 import { Slider } from '@/components/ui/slider';
-import { Camera, Square } from 'lucide-react';
-import * as tf from '@tensorflow/tfjs';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
-
-interface Detection {
-  bbox: [number, number, number, number];
-  class: string;
-  score: number;
-  distance: number;
-  direction: string;
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, Circle, Download, FileVideo, ImageDown, Images, Square } from 'lucide-react';
+import { useDetectionEngine } from '@/hooks/use-detection-engine';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import { generateFallMessage } from '@/lib/detection/alerts';
+import { getDisplayLabel } from '@/lib/detection/labels';
+import { formatDistance } from '@/lib/detection/overlay';
+import { COCO_SSD_BASES } from '@/lib/detection/registry';
+import { SessionRecorder, captureSnapshot, downloadRecording, downloadSnapshot } from '@/lib/detection/recording';
+import { EMPTY_REDACTION, STRICT_MIN_SCORE, canStoreFrames, type RedactionPolicy } from '@/lib/detection/redaction';
+import { ImageSequenceSource, VideoFileSource } from '@/lib/detection/sources';
 
 const BasicObjectDetection: React.FC = () => {
-  // Refs
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const modelRef = useRef<cocoSsd.ObjectDetection | null>(null);
+  const {
+    engine,
+    tracker,
+    smoother,
+    cascadeOptions,
+    setCascadeOptions,
+    poseEstimator,
+    poseOptions,
+    setPoseOptions,
+    depthEstimator,
+    depthOptions,
+    setDepthOptions,
+    groundPlane,
+    groundPlaneOptions,
+    setGroundPlaneOptions,
+    pitch,
+    viewRef,
+    canvasRef,
+    isLoading,
+    loadingProgress,
+    modelLoaded,
+    isDetecting,
+    detections,
+    fps,
+    latency,
+    backend,
+    regionConfig,
+    setRegionConfig,
+    draftRegion,
+    setDraftRegion,
+    addDraftPoint,
+    modelSpec,
+    selectModel,
+    backendPreference,
+    selectBackend,
+    benchmark,
+    rerunBenchmark,
+    classFilter,
+    setClassFilter,
+    calibration,
+    calibrationKey,
+    saveCalibration,
+    sizes,
+    sizeOverrides,
+    setSizeOverrides,
+    start: startCamera,
+    stop: stopCamera,
+  } = useDetectionEngine();
 
-  // State
-  const [isLoading, setIsLoading] = useState(true);
-  const [isDetecting, setIsDetecting] = useState(false);
-  const [modelLoaded, setModelLoaded] = useState(false);
-  const [detections, setDetections] = useState<Detection[]>([]);
-  const [fps, setFps] = useState(0);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const framesInputRef = useRef<HTMLInputElement>(null);
   const [confidenceThreshold, setConfidenceThreshold] = useState(0.5);
+  const [detectorSettings, setDetectorSettings] = useState<DetectorSettingsValue>(() => {
+    const { maxBoxes, detectorMinScore, nmsIoUThreshold, tiling, scheduler, motion } = engine.getOptions();
+    return { maxBoxes, detectorMinScore, nmsIoUThreshold, tiling, scheduler, motion };
+  });
+  const [smoothingSettings, setSmoothingSettings] = useState(() => ({ ...smoother.getOptions() }));
+  const [recorder] = useState(() => new SessionRecorder(engine, { stages: { tracker, smoother, groundPlane, depthEstimator } }));
+  const [isRecording, setIsRecording] = useState(false);
+  const [redaction, setRedaction] = usePersistentState<RedactionPolicy>('redaction', EMPTY_REDACTION);
 
-  // Constants for distance estimation
-  const FOCAL_LENGTH = 1000; // pixels
-  const KNOWN_HEIGHTS: { [key: string]: number } = {
-    'person': 1.7,      // 1.7 meters average height
-    'car': 1.5,         // 1.5 meters average height
-    'bicycle': 1.5,     // 1.5 meters average height
-    'motorcycle': 1.5,  // 1.5 meters average height
-    'bus': 3.0,         // 3.0 meters average height
-    'truck': 3.0,       // 3.0 meters average height
-    'dog': 0.5,         // 0.5 meters average height
-    'cat': 0.3,         // 0.3 meters average height
-    'chair': 0.9,       // 0.9 meters average height
-    'table': 0.8,       // 0.8 meters average height
-    'bottle': 0.25,     // 0.25 meters average height
-    'cup': 0.15,        // 0.15 meters average height
-    'laptop': 0.3,      // 0.3 meters average height
-    'tv': 0.6,          // 0.6 meters average height
-    'cell phone': 0.15, // 0.15 meters average height
-    'book': 0.25,       // 0.25 meters average height
-    'bowl': 0.1,        // 0.1 meters average height
-    'apple': 0.08,      // 0.08 meters average height
-    'banana': 0.2,      // 0.2 meters average height
-    'airplane': 10.0,   // 10.0 meters average height
-    'train': 4.0,       // 4.0 meters average height
-    'boat': 2.0,        // 2.0 meters average height
-    'fire hydrant': 0.8, // 0.8 meters average height
-    'stop sign': 0.8,   // 0.8 meters average height
-    'bench': 0.5,       // 0.5 meters average height
-    'bird': 0.2,        // 0.2 meters average height
-    'horse': 1.6,       // 1.6 meters average height
-    'sheep': 1.0,       // 1.0 meters average height
-    'cow': 1.4,         // 1.4 meters average height
-    'elephant': 3.0,    // 3.0 meters average height
-    'bear': 1.8,        // 1.8 meters average height
-    'zebra': 1.4,       // 1.4 meters average height
-    'giraffe': 4.0,     // 4.0 meters average height
-    'backpack': 0.5,    // 0.5 meters average height
-  };
-
-  // Load COCO-SSD model
-  useEffect(() => {
-    const loadModel = async () => {
+  // Record frames and detections for later replay, or save the current recording
+  const toggleRecording = () => {
+    if (recorder.isRecording) {
+      downloadRecording(recorder.stop());
+      setIsRecording(false);
+    } else {
       try {
-        console.log('Loading COCO-SSD model...');
-        
-        // Wait for TensorFlow.js to be ready
-        await tf.ready();
-        console.log('TensorFlow.js ready');
-        
-        // Load the model
-        const model = await cocoSsd.load();
-        modelRef.current = model;
-        setModelLoaded(true);
-        setIsLoading(false);
-        console.log('COCO-SSD model loaded successfully');
+        recorder.start();
+        setIsRecording(true);
       } catch (error) {
-        console.error('Error loading model:', error);
-        setIsLoading(false);
+        toast.error('Recording failed', { description: error.message });
       }
-    };
-
-    loadModel();
-  }, []);
-
-  // Distance estimation using focal length method
-  const estimateDistance = (bbox: [number, number, number, number], className: string): number => {
-    const [x, y, width, height] = bbox;
-    const knownHeight = KNOWN_HEIGHTS[className] || 1.0; // Default to 1 meter if unknown
-    
-    // Distance = (Known Height × Focal Length) / Perceived Height
-    const distance = (knownHeight * FOCAL_LENGTH) / height;
-    
-    // Apply mobile camera correction factor (typically 1.2-1.5x)
-    const correctedDistance = distance * 1.3;
-    
-    // Clamp between 0.5m and 50m for realistic values
-    return Math.max(0.5, Math.min(50, correctedDistance));
-  };
-
-  // Get direction based on object position
-  const getDirection = (x: number, width: number, videoWidth: number): string => {
-    const centerX = x + width / 2;
-    if (centerX < videoWidth / 3) return "Left";
-    if (centerX > (2 * videoWidth) / 3) return "Right";
-    return "Center";
-  };
-
-  // Get color based on distance
-  const getDistanceColor = (distance: number): string => {
-    if (distance < 3) return "#FF0000";      // Red: < 3m
-    if (distance < 5) return "#FFFF00";      // Yellow: 3-5m
-    return "#00FF00";                        // Green: > 5m
-  };
-
-  // Start camera
-  const startCamera = async () => {
-    try {
-      console.log('Starting camera...');
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: 'environment', // Use back camera on mobile
-          width: { ideal: 640, max: 1280 },
-          height: { ideal: 480, max: 720 }
-        }
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        
-        videoRef.current.onloadedmetadata = () => {
-          console.log('Video ready, starting detection...');
-          if (videoRef.current) {
-            videoRef.current.play();
-            setIsDetecting(true);
-            startDetection();
-          }
-        };
-      }
-    } catch (error) {
-      console.error('Camera access error:', error);
     }
   };
 
-  // Stop camera
-  const stopCamera = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    setIsDetecting(false);
-    setDetections([]);
+  const takeSnapshot = () => {
+    captureSnapshot(engine, redaction)
+      .then(blob => downloadSnapshot(blob))
+      .catch(error => toast.error('Snapshot failed', { description: error.message }));
   };
 
-  // Main detection loop
-  const startDetection = () => {
-    let frameCount = 0;
-    let lastTime = performance.now();
-
-    const detect = async () => {
-      if (!videoRef.current || !canvasRef.current || !modelRef.current || !isDetecting) {
-        return;
-      }
-
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) return;
-
-      // Set canvas dimensions to match video
-      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-      }
-
-      // Clear canvas
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      try {
-        // Run object detection
-        const predictions = await modelRef.current.detect(video);
-        const filteredPredictions = predictions.filter(prediction => prediction.score > confidenceThreshold);
-        
-        // Process detections with distance estimation
-        const newDetections: Detection[] = filteredPredictions.map(prediction => {
-          const distance = estimateDistance(prediction.bbox, prediction.class);
-          const direction = getDirection(prediction.bbox[0], prediction.bbox[2], video.videoWidth);
-          return {
-            bbox: prediction.bbox,
-            class: prediction.class,
-            score: prediction.score,
-            distance,
-            direction
-          };
-        });
-        
-        // Update detections state
-        setDetections(newDetections);
-        
-        // Draw bounding boxes with distance-based colors
-        newDetections.forEach(detection => {
-          const [x, y, width, height] = detection.bbox;
-          const color = getDistanceColor(detection.distance);
-          
-          // Draw bounding box
-          ctx.strokeStyle = color;
-          ctx.lineWidth = 3;
-          ctx.strokeRect(x, y, width, height);
-          
-          // Draw label with distance and direction
-          const label = `${detection.class} (${detection.distance.toFixed(1)}m, ${detection.direction})`;
-          const labelPadding = 8;
-          const labelHeight = 20;
-          const labelWidth = ctx.measureText(label).width + labelPadding * 2;
-          
-          // Position label above the object, or below if too close to top
-          const labelY = y > labelHeight + 10 ? y - 10 : y + height + 10;
-          const labelX = x;
-          
-          // Label background
-          ctx.fillStyle = color + 'CC'; // Semi-transparent
-          ctx.fillRect(labelX, labelY - labelHeight + 5, labelWidth, labelHeight);
-          
-          // Label border
-          ctx.strokeStyle = color;
-          ctx.lineWidth = 1;
-          ctx.strokeRect(labelX, labelY - labelHeight + 5, labelWidth, labelHeight);
-          
-          // Label text
-          ctx.fillStyle = '#FFFFFF';
-          ctx.font = 'bold 14px Arial';
-          ctx.textAlign = 'left';
-          ctx.textBaseline = 'middle';
-          ctx.fillText(label, labelX + labelPadding, labelY - labelHeight/2 + 5);
-        });
-        
-      } catch (error) {
-        console.error('Detection error:', error);
-      }
+  useEffect(() => {
+    recorder.setRedaction(redaction);
+  }, [recorder, redaction]);
 
-      // Calculate FPS
-      frameCount++;
-      const currentTime = performance.now();
-      if (currentTime - lastTime >= 1000) {
-        setFps(frameCount);
-        frameCount = 0;
-        lastTime = currentTime;
-      }
+  // Strict redaction also hides boxes the detector would normally drop
+  useEffect(() => {
+    engine.setOptions({ rawMinScore: redaction.strict ? STRICT_MIN_SCORE : null });
+  }, [engine, redaction.strict]);
 
-      // Continue loop
-      if (isDetecting) {
-        requestAnimationFrame(detect);
-      }
-    };
+  // Surface falls even without voice alerts on this screen
+  useEffect(() => {
+    return poseEstimator.on('fall', ({ detection }) => {
+      toast.error('Possible fall detected', { description: generateFallMessage(detection) });
+    });
+  }, [poseEstimator]);
 
-    // Start the detection loop
-    detect();
-  };
+  // Keep the engine's filters in sync with the settings
+  useEffect(() => {
+    engine.setOptions({ minScore: confidenceThreshold, ...detectorSettings });
+  }, [engine, confidenceThreshold, detectorSettings]);
 
-  // Cleanup on unmount
   useEffect(() => {
-    return () => {
-      stopCamera();
-    };
-  }, []);
+    smoother.setOptions(smoothingSettings);
+  }, [smoother, smoothingSettings]);
 
   if (isLoading) {
     return (
@@ -282,6 +142,7 @@ const BasicObjectDetection: React.FC = () => {
           <div className="w-12 h-12 mx-auto mb-4 border-4 border-primary border-t-transparent rounded-full animate-spin" />
           <h2 className="text-xl font-semibold mb-2">Loading Detection Model</h2>
           <p className="text-muted-foreground">Please wait while we load the AI model...</p>
+          {loadingProgress !== null && <Progress value={loadingProgress * 100} className="mt-4" />}
         </div>
       </div>
     );
@@ -293,23 +154,72 @@ const BasicObjectDetection: React.FC = () => {
       <div className="p-4 bg-card border-b border-border">
         <div className="flex gap-2 flex-wrap">
           {!isDetecting ? (
-            <Button onClick={startCamera} disabled={!modelLoaded} className="gap-2">
-              <Camera className="w-4 h-4" />
-              Start Detection
-            </Button>
+            <>
+              <Button onClick={() => startCamera()} disabled={!modelLoaded} className="gap-2">
+                <Camera className="w-4 h-4" />
+                Start Detection
+              </Button>
+              <Button variant="outline" onClick={() => videoInputRef.current?.click()} disabled={!modelLoaded} className="gap-2">
+                <FileVideo className="w-4 h-4" />
+                Open Video
+              </Button>
+              <Button variant="outline" onClick={() => framesInputRef.current?.click()} disabled={!modelLoaded} className="gap-2">
+                <Images className="w-4 h-4" />
+                Open Frames
+              </Button>
+              <input
+                ref={videoInputRef}
+                type="file"
+                accept="video/*"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) startCamera(new VideoFileSource(file));
+                  event.target.value = '';
+                }}
+              />
+              <input
+                ref={framesInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(event) => {
+                  const files = Array.from(event.target.files ?? []);
+                  if (files.length > 0) startCamera(new ImageSequenceSource(files));
+                  event.target.value = '';
+                }}
+              />
+            </>
           ) : (
             <Button onClick={stopCamera} variant="destructive" className="gap-2">
               <Square className="w-4 h-4" />
               Stop Detection
             </Button>
           )}
+
+          {/* Session Recording */}
+          <Button
+            variant={isRecording ? "default" : "outline"}
+            onClick={toggleRecording}
+            disabled={(!isDetecting || !canStoreFrames(redaction)) && !isRecording}
+            className="gap-2"
+          >
+            {isRecording ? <Download className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+            {isRecording ? "Save Recording" : "Record Session"}
+          </Button>
+          <Button variant="outline" onClick={takeSnapshot} disabled={!isDetecting || !canStoreFrames(redaction)} className="gap-2">
+            <ImageDown className="w-4 h-4" />
+            Snapshot
+          </Button>
           
           {/* Status Info */}
           <div className="flex items-center gap-4 text-sm text-muted-foreground">
             <span>FPS: {fps}</span>
+            <span>Latency: {Math.round(latency)}ms</span>
             <span>Objects: {detections.length}</span>
             <span>Model: {modelLoaded ? "Ready" : "Loading"}</span>
-            <span>Backend: {tf.getBackend()}</span>
+            <span>Backend: {backend ?? 'n/a'}</span>
           </div>
         </div>
 
@@ -331,20 +241,104 @@ const BasicObjectDetection: React.FC = () => {
             <span>100% (Fewer Objects)</span>
           </div>
         </div>
+
+        {/* Camera Calibration */}
+        <div className="mt-4">
+          <CalibrationWizard engine={engine} calibration={calibration} sizes={sizes} disabled={!calibrationKey} onSave={saveCalibration} />
+        </div>
+
+        {/* Object Sizes */}
+        <div className="mt-4">
+          <SizeDatabaseSettings sizes={sizes} overrides={sizeOverrides} onChange={setSizeOverrides} />
+        </div>
+
+        {/* Detector Settings */}
+        <div className="mt-4">
+          <DetectorSettings settings={detectorSettings} onChange={setDetectorSettings} />
+        </div>
+
+        {/* Smoothing */}
+        <div className="mt-4">
+          <SmoothingSettings settings={smoothingSettings} onChange={setSmoothingSettings} />
+        </div>
+
+        {/* Second-stage Classifier */}
+        <div className="mt-4">
+          <CascadeSettings settings={cascadeOptions} onChange={setCascadeOptions} />
+        </div>
+
+        {/* Pose Estimation */}
+        <div className="mt-4">
+          <PoseSettings settings={poseOptions} onChange={setPoseOptions} />
+        </div>
+
+        {/* Ground Plane */}
+        <div className="mt-4">
+          <GroundPlaneSettings settings={groundPlaneOptions} onChange={setGroundPlaneOptions} pitch={pitch} />
+        </div>
+
+        {/* Depth Model */}
+        <div className="mt-4">
+          <DepthSettings settings={depthOptions} onChange={setDepthOptions} />
+        </div>
+
+        {/* Privacy */}
+        <div className="mt-4">
+          <RedactionSettings policy={redaction} onChange={setRedaction} />
+        </div>
+
+        {/* Class Filters */}
+        <div className="mt-4">
+          <ClassFilterSettings config={classFilter} onChange={setClassFilter} />
+        </div>
+
+        {/* Model Selection */}
+        <div className="mt-4">
+          <label className="text-sm font-medium mb-2 block">Detection Model</label>
+          <Select
+            value={modelSpec.type === 'coco-ssd' ? modelSpec.base : undefined}
+            onValueChange={(base) => selectModel({ type: 'coco-ssd', base: base as (typeof COCO_SSD_BASES)[number] })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder={modelSpec.type === 'graph' ? modelSpec.name ?? 'Custom model' : undefined} />
+            </SelectTrigger>
+            <SelectContent>
+              {COCO_SSD_BASES.map(base => (
+                <SelectItem key={base} value={base}>COCO-SSD ({base})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Inference Backend */}
+        <div className="mt-4">
+          <BackendSettings
+            value={backendPreference}
+            onChange={selectBackend}
+            benchmark={benchmark}
+            onRerun={rerunBenchmark}
+            disabled={isLoading}
+          />
+        </div>
       </div>
 
       {/* Camera View */}
       <div className="relative bg-black">
-        <video
-          ref={videoRef}
-          className="w-full h-auto"
-          autoPlay
-          playsInline
-          muted
-        />
+        <div ref={viewRef} />
         <canvas
           ref={canvasRef}
-          className="absolute top-0 left-0 w-full h-full pointer-events-none"
+          className={`absolute top-0 left-0 w-full h-full ${draftRegion ? 'pointer-events-auto cursor-crosshair' : 'pointer-events-none'}`}
+          onPointerDown={(event) => draftRegion && addDraftPoint(event.clientX, event.clientY)}
+        />
+      </div>
+
+      {/* Detection Zones */}
+      <div className="p-4 bg-card border-t border-border">
+        <RegionEditor
+          config={regionConfig}
+          onChange={setRegionConfig}
+          draft={draftRegion}
+          onDraftChange={setDraftRegion}
         />
       </div>
 
@@ -393,11 +387,16 @@ const BasicObjectDetection: React.FC = () => {
           <p className="text-muted-foreground">No objects detected yet. Start the camera to begin detection.</p>
         ) : (
           <div className="grid grid-cols-2 gap-2">
-            {detections.map((detection, index) => (
-              <div key={index} className="p-2 bg-muted rounded text-sm">
-                <div className="font-medium">{detection.class}</div>
+            {detections.map(detection => (
+              <div key={detection.id} className="p-2 bg-muted rounded text-sm">
+                <div className="font-medium">{getDisplayLabel(detection)}</div>
+                {detection.refinement && (
+                  <div className="text-xs text-muted-foreground">
+                    {detection.class} • classified {Math.round(detection.refinement.score * 100)}%
+                  </div>
+                )}
                 <div className="text-muted-foreground">
-                  {Math.round(detection.score * 100)}% • {detection.distance.toFixed(1)}m • {detection.direction}
+                  {Math.round(detection.score * 100)}% • {formatDistance(detection)} • {detection.direction}
                 </div>
               </div>
             ))}
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { measureCalibration, type CameraCalibration } from '@/lib/detection/calibration';
+import { DEFAULT_FOCAL_LENGTH } from '@/lib/detection/distance';
+import type { DetectionEngine } from '@/lib/detection/engine';
+import { COCO_CLASSES } from '@/lib/detection/labels';
+import { getObjectSize, type SizeDatabase } from '@/lib/detection/sizes';
+
+interface CalibrationWizardProps {
+  engine: DetectionEngine;
+  calibration: CameraCalibration | null;
+  sizes: SizeDatabase;  // Prefills the height of the reference object
+  disabled?: boolean;  // No live camera to calibrate
+  onSave: (calibration: CameraCalibration | null) => void;
+}
+
+type Step = 'setup' | 'measuring' | 'done';
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ engine, calibration, sizes, disabled, onSave }) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('setup');
+  const [className, setClassName] = useState('person');
+  const [realHeight, setRealHeight] = useState(() => String(getObjectSize('person', sizes).height));
+  const [distance, setDistance] = useState('3');
+  const [result, setResult] = useState<CameraCalibration | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Measurements still running when the dialog closes are ignored
+  const runRef = useRef(0);
+
+  const height = parseFloat(realHeight);
+  const meters = parseFloat(distance);
+  const valid = height > 0 && meters > 0;
+
+  const selectClass = (name: string) => {
+    setClassName(name);
+    if (sizes[name]) setRealHeight(String(sizes[name].height));
+  };
+
+  const measure = () => {
+    const run = ++runRef.current;
+    setStep('measuring');
+    setError(null);
+    measureCalibration(engine, { className, realHeight: height, distance: meters })
+      .then(measured => {
+        if (run !== runRef.current) return;
+        setResult(measured);
+        setStep('done');
+      })
+      .catch(reason => {
+        if (run !== runRef.current) return;
+        setError(reason.message);
+        setStep('setup');
+      });
+  };
+
+  const reset = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      runRef.current++;
+      setStep('setup');
+      setResult(null);
+      setError(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={reset}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Camera Calibration</h3>
+          <p className="text-xs text-muted-foreground">
+            {calibration
+              ? `Focal length ${Math.round(calibration.focalLength)}px at ${calibration.width}×${calibration.height}`
+              : `Not calibrated, using ${Math.round(DEFAULT_FOCAL_LENGTH)}px`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {calibration && (
+            <Button variant="ghost" size="sm" onClick={() => onSave(null)} disabled={disabled}>Reset</Button>
+          )}
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2" disabled={disabled}>
+              <Ruler className="w-4 h-4" />
+              Calibrate
+            </Button>
+          </DialogTrigger>
+        </div>
+      </div>
+
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Calibrate Camera</DialogTitle>
+          <DialogDescription>
+            Place an object of known height at a measured distance, straight in front of the camera and fully in view.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'done' && result ? (
+          <p className="text-sm">
+            Measured focal length: <strong>{Math.round(result.focalLength)}px</strong> at {result.width}×{result.height}.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Reference Object</label>
+              <Select value={className} onValueChange={selectClass} disabled={step === 'measuring'}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COCO_CLASSES.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="text-sm font-medium mb-2 block">Real Height (m)</label>
+                <Input type="number" min="0" step="0.01" value={realHeight} onChange={(event) => setRealHeight(event.target.value)} disabled={step === 'measuring'} />
+              </div>
+              <div className="flex-1">
+                <label className="text-sm font-medium mb-2 block">Distance (m)</label>
+                <Input type="number" min="0" step="0.1" value={distance} onChange={(event) => setDistance(event.target.value)} disabled={step === 'measuring'} />
+              </div>
+            </div>
+            {step === 'measuring' && (
+              <p className="text-sm text-muted-foreground">Looking for a {className}, hold the camera still...</p>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'done' && result ? (
+            <Button
+              onClick={() => {
+                onSave(result);
+                reset(false);
+              }}
+            >
+              Save
+            </Button>
+          ) : (
+            <Button onClick={measure} disabled={!valid || step === 'measuring'}>
+              {step === 'measuring' ? 'Measuring...' : 'Measure'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CascadeOptions } from '@/lib/detection/classifier';
+import { COCO_CLASSES } from '@/lib/detection/labels';
+
+interface CascadeSettingsProps {
+  settings: CascadeOptions;
+  onChange: (settings: CascadeOptions) => void;
+}
+
+const parseClasses = (text: string): string[] =>
+  text.split(',').map(name => name.trim().toLowerCase()).filter(name => COCO_CLASSES.includes(name));
+
+const CascadeSettings: React.FC<CascadeSettingsProps> = ({ settings, onChange }) => {
+  const { enabled, classifier, classes, minScore } = settings;
+  const [classText, setClassText] = useState(classes.join(', '));
+  const update = (patch: Partial<CascadeOptions>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Fine-grained Labels</h3>
+          <p className="text-xs text-muted-foreground">Classify crops to name breeds, species and models</p>
+        </div>
+        <Switch checked={enabled} onCheckedChange={(checked) => update({ enabled: checked })} />
+      </div>
+
+      {enabled && (
+        <>
+          {/* User-supplied graph classifiers are configured in code, so only MobileNet is offered here */}
+          <div>
+            <label className="text-sm font-medium mb-2 block">Classifier</label>
+            <Select
+              value={classifier.type === 'mobilenet' ? String(classifier.version ?? 2) : undefined}
+              onValueChange={(version) => update({ classifier: { type: 'mobilenet', version: Number(version) as 1 | 2, alpha: 1.0 } })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder={classifier.type === 'graph' ? classifier.name ?? 'Custom classifier' : undefined} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">MobileNet v1</SelectItem>
+                <SelectItem value="2">MobileNet v2</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">Refine These Classes</label>
+            <Input
+              value={classText}
+              onChange={(event) => setClassText(event.target.value)}
+              onBlur={() => {
+                const parsed = parseClasses(classText);
+                setClassText(parsed.join(', '));
+                update({ classes: parsed });
+              }}
+              placeholder="dog, cat, bird, car"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              Minimum Classifier Score: {(minScore * 100).toFixed(0)}%
+            </label>
+            <Slider
+              value={[minScore]}
+              onValueChange={(value) => update({ minScore: value[0] })}
+              max={0.9}
+              min={0.05}
+              step={0.05}
+              className="w-full"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CascadeSettings;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  EMPTY_CLASS_FILTER,
+  getClassRule,
+  setClassRule,
+  setClassThreshold,
+  type ClassFilterConfig,
+  type ClassRule,
+} from '@/lib/detection/class-filter';
+import { COCO_CLASSES } from '@/lib/detection/labels';
+
+interface ClassFilterSettingsProps {
+  config: ClassFilterConfig;
+  onChange: (config: ClassFilterConfig) => void;
+}
+
+const ClassFilterSettings: React.FC<ClassFilterSettingsProps> = ({ config, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const classes = COCO_CLASSES.filter(name => name.includes(search.trim().toLowerCase()));
+  const summary = [
+    config.allowlist.length > 0 && `${config.allowlist.length} only`,
+    config.denylist.length > 0 && `${config.denylist.length} ignored`,
+    Object.keys(config.thresholds).length > 0 && `${Object.keys(config.thresholds).length} custom thresholds`,
+  ].filter(Boolean).join(', ') || 'All classes';
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Class Filters</h3>
+          <p className="text-xs text-muted-foreground">{summary}</p>
+        </div>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-1">
+            {open ? 'Hide' : 'Edit'}
+            <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+
+      <CollapsibleContent className="mt-2 space-y-2">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Search classes..."
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+          />
+          <Button variant="outline" onClick={() => onChange(EMPTY_CLASS_FILTER)}>Reset</Button>
+        </div>
+
+        <ScrollArea className="h-72 rounded border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Class</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Min Score</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {classes.map(className => {
+                const threshold = config.thresholds[className];
+                return (
+                  <TableRow key={className}>
+                    <TableCell className="py-1 font-medium">{className}</TableCell>
+                    <TableCell className="py-1">
+                      <Select
+                        value={getClassRule(config, className)}
+                        onValueChange={(rule) => onChange(setClassRule(config, className, rule as ClassRule))}
+                      >
+                        <SelectTrigger className="h-8 w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">Default</SelectItem>
+                          <SelectItem value="allow">Only</SelectItem>
+                          <SelectItem value="deny">Ignore</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="py-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        placeholder="Global"
+                        className="h-8 w-24"
+                        value={threshold ?? ''}
+                        onChange={(event) => {
+                          const value = event.target.value;
+                          onChange(setClassThreshold(config, className, value === '' ? null : Math.min(1, Math.max(0, Number(value)))));
+                        }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        <p className="text-xs text-muted-foreground">
+          "Only" restricts detection to the marked classes. A threshold replaces the confidence slider for its class, and may go below it.
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ClassFilterSettings;
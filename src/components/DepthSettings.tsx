@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { DepthOptions } from '@/lib/detection/depth';
+
+interface DepthSettingsProps {
+  settings: DepthOptions;
+  onChange: (settings: DepthOptions) => void;
+}
+
+const DepthSettings: React.FC<DepthSettingsProps> = ({ settings, onChange }) => {
+  const { enabled, model, depthWeight, refreshInterval } = settings;
+  const [url, setUrl] = useState(typeof model?.source === 'string' ? model.source : '');
+  const update = (patch: Partial<DepthOptions>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Depth Model</h3>
+          <p className="text-xs text-muted-foreground">Distances for every class, calibrated by objects of known height</p>
+        </div>
+        <Switch checked={enabled} onCheckedChange={(checked) => update({ enabled: checked })} />
+      </div>
+
+      {enabled && (
+        <>
+          {/* Locally picked models cannot be persisted, so only URLs are offered here */}
+          <div>
+            <label className="text-sm font-medium mb-2 block">Model URL (MiDaS-style TF.js graph model)</label>
+            <Input
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              onBlur={() => {
+                const source = url.trim();
+                update({ model: source ? { ...model, source } : null });
+              }}
+              placeholder="https://example.com/midas-small/model.json"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              Depth Share in Fused Distance: {(depthWeight * 100).toFixed(0)}%
+            </label>
+            <Slider
+              value={[depthWeight]}
+              onValueChange={(value) => update({ depthWeight: value[0] })}
+              max={1}
+              min={0}
+              step={0.1}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              Depth Map Refresh: {refreshInterval}ms
+            </label>
+            <Slider
+              value={[refreshInterval]}
+              onValueChange={(value) => update({ refreshInterval: value[0] })}
+              max={2000}
+              min={0}
+              step={100}
+              className="w-full"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DepthSettings;
@@ -0,0 +1,229 @@
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DetectionEngineOptions } from '@/lib/detection/engine';
+import type { TilingMode } from '@/lib/detection/tiling';
+
+export type DetectorSettingsValue = Required<Pick<DetectionEngineOptions, 'maxBoxes' | 'detectorMinScore' | 'nmsIoUThreshold' | 'tiling' | 'scheduler' | 'motion'>>;
+
+interface DetectorSettingsProps {
+  settings: DetectorSettingsValue;
+  onChange: (settings: DetectorSettingsValue) => void;
+}
+
+const DEFAULT_NMS_IOU = 0.5;
+
+const DetectorSettings: React.FC<DetectorSettingsProps> = ({ settings, onChange }) => {
+  const { maxBoxes, detectorMinScore, nmsIoUThreshold, tiling, scheduler, motion } = settings;
+  const update = (patch: Partial<DetectorSettingsValue>) => onChange({ ...settings, ...patch });
+  const updateScheduler = (patch: Partial<DetectorSettingsValue['scheduler']>) => update({ scheduler: { ...scheduler, ...patch } });
+  const updateMotion = (patch: Partial<DetectorSettingsValue['motion']>) => update({ motion: { ...motion, ...patch } });
+  const updateTiling = (patch: Partial<DetectorSettingsValue['tiling']>) => update({ tiling: { ...tiling, ...patch } });
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold">Detector</h3>
+
+      {/* Scheduling */}
+      <div>
+        <label className="text-sm font-medium mb-2 block">Target Rate: {scheduler.targetFps} detections/s</label>
+        <Slider
+          value={[scheduler.targetFps]}
+          onValueChange={(value) => updateScheduler({ targetFps: value[0] })}
+          max={30}
+          min={1}
+          step={1}
+          className="w-full"
+        />
+      </div>
+      <div>
+        <label className="text-sm font-medium mb-2 block">
+          CPU Budget: {(scheduler.cpuBudget * 100).toFixed(0)}% of the time inferring
+        </label>
+        <Slider
+          value={[scheduler.cpuBudget]}
+          onValueChange={(value) => updateScheduler({ cpuBudget: value[0] })}
+          max={1}
+          min={0.1}
+          step={0.05}
+          className="w-full"
+        />
+        <div className="flex justify-between text-xs text-muted-foreground mt-1">
+          <span>10% (Save Battery)</span>
+          <span>100% (No Limit)</span>
+        </div>
+      </div>
+
+      {/* Motion Gating */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium">Skip Static Scenes</label>
+          <Switch
+            checked={motion.enabled}
+            onCheckedChange={(enabled) => updateMotion({ enabled })}
+          />
+        </div>
+        {motion.enabled && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">
+                Motion Sensitivity: {(motion.areaThreshold * 100).toFixed(1)}% of the frame
+              </label>
+              <Slider
+                value={[motion.areaThreshold]}
+                onValueChange={(value) => updateMotion({ areaThreshold: value[0] })}
+                max={0.1}
+                min={0.001}
+                step={0.001}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                <span>0.1% (Sensitive)</span>
+                <span>10% (Large Motion Only)</span>
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-muted-foreground">Show Motion Mask</label>
+              <Switch
+                checked={motion.showMask}
+                onCheckedChange={(showMask) => updateMotion({ showMask })}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Max Boxes */}
+      <div>
+        <label className="text-sm font-medium mb-2 block">Maximum Boxes: {maxBoxes}</label>
+        <Slider
+          value={[maxBoxes]}
+          onValueChange={(value) => update({ maxBoxes: value[0] })}
+          max={100}
+          min={1}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      {/* Detector Min Score */}
+      <div>
+        <label className="text-sm font-medium mb-2 block">
+          Detector Min Score: {(detectorMinScore * 100).toFixed(0)}%
+        </label>
+        <Slider
+          value={[detectorMinScore]}
+          onValueChange={(value) => update({ detectorMinScore: value[0] })}
+          max={0.95}
+          min={0.05}
+          step={0.05}
+          className="w-full"
+        />
+      </div>
+
+      {/* Non-Max Suppression */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium">
+            Class-aware NMS{nmsIoUThreshold !== null && `: IoU > ${nmsIoUThreshold.toFixed(2)}`}
+          </label>
+          <Switch
+            checked={nmsIoUThreshold !== null}
+            onCheckedChange={(checked) => update({ nmsIoUThreshold: checked ? DEFAULT_NMS_IOU : null })}
+          />
+        </div>
+        {nmsIoUThreshold !== null && (
+          <>
+            <Slider
+              value={[nmsIoUThreshold]}
+              onValueChange={(value) => update({ nmsIoUThreshold: value[0] })}
+              max={0.9}
+              min={0.1}
+              step={0.05}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground mt-1">
+              <span>10% (Merge More)</span>
+              <span>90% (Keep Overlaps)</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Tiled Inference */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium">Tiled Inference</label>
+          <Select value={tiling.mode} onValueChange={(mode) => updateTiling({ mode: mode as TilingMode })}>
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              <SelectItem value="always">Every frame</SelectItem>
+              <SelectItem value="idle">When idle</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {tiling.mode !== 'off' && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">
+                Grid: {tiling.cols} x {tiling.rows}
+              </label>
+              <div className="flex gap-4">
+                <Slider
+                  value={[tiling.cols]}
+                  onValueChange={(value) => updateTiling({ cols: value[0] })}
+                  max={4}
+                  min={1}
+                  step={1}
+                  className="flex-1"
+                />
+                <Slider
+                  value={[tiling.rows]}
+                  onValueChange={(value) => updateTiling({ rows: value[0] })}
+                  max={4}
+                  min={1}
+                  step={1}
+                  className="flex-1"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">
+                Overlap: {(tiling.overlap * 100).toFixed(0)}%
+              </label>
+              <Slider
+                value={[tiling.overlap]}
+                onValueChange={(value) => updateTiling({ overlap: value[0] })}
+                max={0.5}
+                min={0}
+                step={0.05}
+                className="w-full"
+              />
+            </div>
+            {tiling.mode === 'idle' && (
+              <div>
+                <label className="text-xs text-muted-foreground mb-1 block">
+                  At most every {(tiling.idleInterval / 1000).toFixed(1)}s, while the scene is still
+                </label>
+                <Slider
+                  value={[tiling.idleInterval]}
+                  onValueChange={(value) => updateTiling({ idleInterval: value[0] })}
+                  max={10000}
+                  min={500}
+                  step={500}
+                  className="w-full"
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DetectorSettings;
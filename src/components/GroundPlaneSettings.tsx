@@ -0,0 +1,90 @@
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { requestOrientationPermission, type GroundPlaneOptions, type PitchSource } from '@/lib/detection/ground';
+
+interface GroundPlaneSettingsProps {
+  settings: GroundPlaneOptions;
+  onChange: (settings: GroundPlaneOptions) => void;
+  pitch: number | null;  // Pitch currently in use, in degrees below horizontal
+}
+
+const GroundPlaneSettings: React.FC<GroundPlaneSettingsProps> = ({ settings, onChange, pitch }) => {
+  const { enabled, cameraHeight, pitchSource, pitch: manualPitch } = settings;
+  const update = (patch: Partial<GroundPlaneOptions>) => onChange({ ...settings, ...patch });
+
+  // Ask for sensor access from the switch itself, since iOS requires a user gesture
+  const toggle = async (checked: boolean) => {
+    const granted = !checked || pitchSource !== 'sensor' || await requestOrientationPermission();
+    update({ enabled: checked, pitchSource: granted ? pitchSource : 'manual' });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Ground Plane Distance</h3>
+          <p className="text-xs text-muted-foreground">
+            {enabled
+              ? pitch === null ? 'Waiting for tilt sensor...' : `Camera tilted ${pitch.toFixed(0)}° down`
+              : 'Measure from where objects touch the floor'}
+          </p>
+        </div>
+        <Switch checked={enabled} onCheckedChange={toggle} />
+      </div>
+
+      {enabled && (
+        <>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Camera Height: {cameraHeight.toFixed(2)}m</label>
+            <Slider
+              value={[cameraHeight]}
+              onValueChange={(value) => update({ cameraHeight: value[0] })}
+              max={3}
+              min={0.2}
+              step={0.05}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">Camera Tilt</label>
+            <Select
+              value={pitchSource}
+              onValueChange={async (value) => {
+                const source = value as PitchSource;
+                if (source === 'sensor' && !await requestOrientationPermission()) return;
+                update({ pitchSource: source });
+              }}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sensor">Device Orientation Sensor</SelectItem>
+                <SelectItem value="manual">Fixed (Mounted Camera)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {pitchSource === 'manual' && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Tilt Below Horizontal: {manualPitch}°</label>
+              <Slider
+                value={[manualPitch]}
+                onValueChange={(value) => update({ pitch: value[0] })}
+                max={60}
+                min={-10}
+                step={1}
+                className="w-full"
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GroundPlaneSettings;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { PoseModelType, PoseOptions } from '@/lib/detection/pose';
+
+interface PoseSettingsProps {
+  settings: PoseOptions;
+  onChange: (settings: PoseOptions) => void;
+}
+
+const PoseSettings: React.FC<PoseSettingsProps> = ({ settings, onChange }) => {
+  const { enabled, model, maxPeople, fallWindow } = settings;
+  const update = (patch: Partial<PoseOptions>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Pose & Fall Detection</h3>
+          <p className="text-xs text-muted-foreground">Skeletons, standing/sitting/lying and fall alerts for people</p>
+        </div>
+        <Switch checked={enabled} onCheckedChange={(checked) => update({ enabled: checked })} />
+      </div>
+
+      {enabled && (
+        <>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Pose Model</label>
+            <Select value={model} onValueChange={(value) => update({ model: value as PoseModelType })}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lightning">MoveNet Lightning (Fast)</SelectItem>
+                <SelectItem value="thunder">MoveNet Thunder (Accurate)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">People per Frame: {maxPeople}</label>
+            <Slider
+              value={[maxPeople]}
+              onValueChange={(value) => update({ maxPeople: value[0] })}
+              max={5}
+              min={1}
+              step={1}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              Fall Window: {(fallWindow / 1000).toFixed(1)}s from standing to lying
+            </label>
+            <Slider
+              value={[fallWindow]}
+              onValueChange={(value) => update({ fallWindow: value[0] })}
+              max={5000}
+              min={500}
+              step={250}
+              className="w-full"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PoseSettings;
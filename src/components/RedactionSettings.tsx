@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { STRICT_MIN_SCORE, canStoreFrames, type RedactionMode, type RedactionPolicy, type RedactionRegion, type RedactionRule } from '@/lib/detection/redaction';
+import { COCO_CLASSES } from '@/lib/detection/labels';
+
+interface RedactionSettingsProps {
+  policy: RedactionPolicy;
+  onChange: (policy: RedactionPolicy) => void;
+}
+
+const RedactionSettings: React.FC<RedactionSettingsProps> = ({ policy, onChange }) => {
+  const [newClass, setNewClass] = useState('person');
+  const { rules, strict } = policy;
+
+  const setRule = (name: string, rule: RedactionRule | null) => {
+    const next = { ...rules };
+    if (rule) next[name] = rule;
+    else delete next[name];
+    onChange({ ...policy, rules: next });
+  };
+
+  const available = COCO_CLASSES.filter(name => !rules[name]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold">Privacy Redaction</h3>
+        <p className="text-xs text-muted-foreground">Blur or pixelate classes in recordings and snapshots</p>
+      </div>
+
+      {Object.entries(rules).map(([name, rule]) => (
+        <div key={name} className="flex items-center gap-2">
+          <span className="text-sm flex-1">{name}</span>
+          <Select value={rule.mode} onValueChange={(value) => setRule(name, { ...rule, mode: value as RedactionMode })}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="blur">Blur</SelectItem>
+              <SelectItem value="pixelate">Pixelate</SelectItem>
+            </SelectContent>
+          </Select>
+          {/* Head regions come from pose keypoints, which only exist for people */}
+          <Select
+            value={rule.region}
+            onValueChange={(value) => setRule(name, { ...rule, region: value as RedactionRegion })}
+            disabled={name !== 'person'}
+          >
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="box">Whole box</SelectItem>
+              <SelectItem value="head">Head only</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="icon" onClick={() => setRule(name, null)} aria-label={`Stop redacting ${name}`}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {available.length > 0 && (
+        <div className="flex gap-2">
+          <Select value={rules[newClass] ? undefined : newClass} onValueChange={setNewClass}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Choose a class" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => setRule(newClass, { mode: 'blur', region: 'box' })}
+            disabled={!!rules[newClass]}
+            className="gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Redact
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm font-medium block">Never Store Unredacted Frames</label>
+          <p className="text-xs text-muted-foreground">
+            Also hide boxes of these classes down to {STRICT_MIN_SCORE * 100}% confidence, including those filtered out
+          </p>
+        </div>
+        <Switch checked={strict} onCheckedChange={(checked) => onChange({ ...policy, strict: checked })} />
+      </div>
+      {!canStoreFrames(policy) && (
+        <p className="text-xs text-destructive">Recording and snapshots are blocked until a class is selected</p>
+      )}
+    </div>
+  );
+};
+
+export default RedactionSettings;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Check, Pentagon, ShieldOff, Trash2, Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Region, RegionAnchor, RegionConfig, RegionKind } from '@/lib/detection/regions';
+
+interface RegionEditorProps {
+  config: RegionConfig;
+  onChange: (config: RegionConfig) => void;
+  draft: Region | null;
+  onDraftChange: (draft: Region | null) => void;
+}
+
+const RegionEditor: React.FC<RegionEditorProps> = ({ config, onChange, draft, onDraftChange }) => {
+  const startDraft = (kind: RegionKind) => onDraftChange({ id: `${kind}-${Date.now()}`, kind, points: [] });
+
+  const finishDraft = () => {
+    if (!draft || draft.points.length < 3) return;
+    onChange({ ...config, regions: [...config.regions, draft] });
+    onDraftChange(null);
+  };
+
+  const removeRegion = (id: string) => onChange({ ...config, regions: config.regions.filter(region => region.id !== id) });
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-semibold">Detection Zones</h3>
+
+      {draft ? (
+        <div className="flex gap-2 flex-wrap items-center">
+          <span className="text-sm text-muted-foreground">
+            Tap the video to add points ({draft.points.length} so far)
+          </span>
+          <Button size="sm" onClick={finishDraft} disabled={draft.points.length < 3} className="gap-1">
+            <Check className="w-4 h-4" />
+            Finish
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onDraftChange({ ...draft, points: draft.points.slice(0, -1) })}
+            disabled={draft.points.length === 0}
+            className="gap-1"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => onDraftChange(null)} className="gap-1">
+            <X className="w-4 h-4" />
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2 flex-wrap items-center">
+          <Button size="sm" variant="outline" onClick={() => startDraft('include')} className="gap-1">
+            <Pentagon className="w-4 h-4" />
+            Add Zone
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => startDraft('exclude')} className="gap-1">
+            <ShieldOff className="w-4 h-4" />
+            Add Exclusion
+          </Button>
+          <Select
+            value={config.anchor}
+            onValueChange={(anchor) => onChange({ ...config, anchor: anchor as RegionAnchor })}
+          >
+            <SelectTrigger className="h-9 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="foot">Test box foot</SelectItem>
+              <SelectItem value="center">Test box center</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {config.regions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No zones: the whole frame is monitored.</p>
+      ) : (
+        <div className="flex gap-2 flex-wrap">
+          {config.regions.map((region, index) => (
+            <div
+              key={region.id}
+              className={`flex items-center gap-1 px-2 py-1 rounded border text-sm ${
+                region.kind === 'include' ? 'border-green-300 bg-green-50 text-green-700' : 'border-red-300 bg-red-50 text-red-700'
+              }`}
+            >
+              {region.kind === 'include' ? 'Zone' : 'Exclusion'} {index + 1}
+              <button onClick={() => removeRegion(region.id)} aria-label="Remove zone">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionEditor;
@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, Download, RotateCcw, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/sonner';
+import {
+  DEFAULT_SIZES,
+  downloadSizeDatabase,
+  getObjectSize,
+  parseSizeDatabase,
+  type ObjectSize,
+  type SizeConfidence,
+  type SizeDatabase,
+} from '@/lib/detection/sizes';
+
+interface SizeDatabaseSettingsProps {
+  sizes: SizeDatabase;            // Defaults merged with the overrides
+  overrides: SizeDatabase;
+  onChange: (overrides: SizeDatabase) => void;
+}
+
+const SizeDatabaseSettings: React.FC<SizeDatabaseSettingsProps> = ({ sizes, overrides, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const classes = Object.keys(sizes).filter(name => name.includes(search.trim().toLowerCase()));
+  const edited = Object.keys(overrides).length;
+
+  const update = (className: string, patch: Partial<ObjectSize>) =>
+    onChange({ ...overrides, [className]: { ...getObjectSize(className, sizes), ...patch } });
+
+  const revert = (className: string) => {
+    const { [className]: _reverted, ...rest } = overrides;
+    onChange(rest);
+  };
+
+  // Imported entries are merged over the current overrides
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseSizeDatabase(await file.text());
+      onChange({ ...overrides, ...imported });
+      toast.success(`Imported sizes for ${Object.keys(imported).length} classes`);
+    } catch (error) {
+      toast.error('Could not import sizes', { description: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const parseMeters = (value: string): number | null => {
+    const meters = parseFloat(value);
+    return meters > 0 ? meters : null;
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Object Sizes</h3>
+          <p className="text-xs text-muted-foreground">
+            {edited > 0 ? `${edited} edited classes` : `Defaults for ${Object.keys(DEFAULT_SIZES).length} classes`}
+          </p>
+        </div>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-1">
+            {open ? 'Hide' : 'Edit'}
+            <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+
+      <CollapsibleContent className="mt-2 space-y-2">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Search classes..."
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+          />
+          <Button variant="outline" size="icon" onClick={() => importInputRef.current?.click()} aria-label="Import sizes">
+            <Upload className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => downloadSizeDatabase(sizes)} aria-label="Export sizes">
+            <Download className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" onClick={() => onChange({})} disabled={edited === 0}>Reset</Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) importFile(file);
+              event.target.value = '';
+            }}
+          />
+        </div>
+
+        <ScrollArea className="h-72 rounded border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Class</TableHead>
+                <TableHead>Height (m)</TableHead>
+                <TableHead>Width (m)</TableHead>
+                <TableHead>Confidence</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {classes.map(className => {
+                const size = sizes[className];
+                return (
+                  <TableRow key={className}>
+                    <TableCell className="py-1">
+                      <div className="font-medium">{className}</div>
+                      <Input
+                        className="h-7 mt-1 text-xs"
+                        value={size.source}
+                        onChange={(event) => update(className, { source: event.target.value })}
+                        placeholder="Source or note"
+                      />
+                    </TableCell>
+                    <TableCell className="py-1">
+                      <Input
+                        type="number"
+                        min={0.01}
+                        step={0.05}
+                        className="h-8 w-20"
+                        defaultValue={size.height}
+                        key={`height-${size.height}`}
+                        onBlur={(event) => {
+                          const height = parseMeters(event.target.value);
+                          if (height !== null && height !== size.height) update(className, { height });
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell className="py-1">
+                      <Input
+                        type="number"
+                        min={0.01}
+                        step={0.05}
+                        className="h-8 w-20"
+                        defaultValue={size.width}
+                        key={`width-${size.width}`}
+                        onBlur={(event) => {
+                          const width = parseMeters(event.target.value);
+                          if (width !== null && width !== size.width) update(className, { width });
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell className="py-1">
+                      <Select
+                        value={size.confidence}
+                        onValueChange={(confidence) => update(className, { confidence: confidence as SizeConfidence })}
+                      >
+                        <SelectTrigger className="h-8 w-24">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="high">High</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="low">Low</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="py-1">
+                      {overrides[className] && (
+                        <Button variant="ghost" size="icon" onClick={() => revert(className)} aria-label={`Restore default size of ${className}`}>
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        <p className="text-xs text-muted-foreground">
+          Distances use the height, or the width when a box is cut off at the top or bottom. Low-confidence classes are not used to calibrate the depth model or to cross-check ground-plane distances.
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default SizeDatabaseSettings;
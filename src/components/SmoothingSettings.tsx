@@ -0,0 +1,103 @@
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { SmoothingOptions } from '@/lib/detection/smoothing';
+
+interface SmoothingSettingsProps {
+  settings: SmoothingOptions;
+  onChange: (settings: SmoothingOptions) => void;
+}
+
+const SmoothingSettings: React.FC<SmoothingSettingsProps> = ({ settings, onChange }) => {
+  const { enabled, minCutoff, beta, window, enterHits, exitMisses } = settings;
+  const update = (patch: Partial<SmoothingOptions>) => onChange({ ...settings, ...patch });
+
+  // Keep N and the exit count within the window when it shrinks
+  const updateWindow = (value: number) => update({
+    window: value,
+    enterHits: Math.min(enterHits, value),
+    exitMisses: Math.min(exitMisses, value),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Smoothing</h3>
+        <Switch checked={enabled} onCheckedChange={(checked) => update({ enabled: checked })} />
+      </div>
+
+      {enabled && (
+        <>
+          {/* One-euro filter */}
+          <div>
+            <label className="text-sm font-medium mb-2 block">Steadiness: {minCutoff.toFixed(1)} Hz cutoff</label>
+            <Slider
+              value={[minCutoff]}
+              onValueChange={(value) => update({ minCutoff: value[0] })}
+              max={5}
+              min={0.1}
+              step={0.1}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground mt-1">
+              <span>0.1 (Steady)</span>
+              <span>5 (Raw)</span>
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Responsiveness: {beta.toFixed(1)}</label>
+            <Slider
+              value={[beta]}
+              onValueChange={(value) => update({ beta: value[0] })}
+              max={10}
+              min={0}
+              step={0.1}
+              className="w-full"
+            />
+          </div>
+
+          {/* N-of-M confirmation */}
+          <div>
+            <label className="text-sm font-medium mb-2 block">Presence Window: {window} frames</label>
+            <Slider
+              value={[window]}
+              onValueChange={(value) => updateWindow(value[0])}
+              max={15}
+              min={1}
+              step={1}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">
+              Appears after {enterHits} of {window} frames
+            </label>
+            <Slider
+              value={[enterHits]}
+              onValueChange={(value) => update({ enterHits: value[0] })}
+              max={window}
+              min={1}
+              step={1}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">
+              Gone after missing {exitMisses} of {window} frames
+            </label>
+            <Slider
+              value={[exitMisses]}
+              onValueChange={(value) => update({ exitMisses: value[0] })}
+              max={window}
+              min={1}
+              step={1}
+              className="w-full"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SmoothingSettings;
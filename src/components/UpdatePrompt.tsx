@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { toast } from '@/components/ui/sonner';
+
+// Registers the service worker and asks before switching to a newly deployed build
+const UpdatePrompt: React.FC = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisterError: error => console.warn('Service worker registration failed:', error),
+  });
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast('Ready to work offline');
+    setOfflineReady(false);
+  }, [offlineReady, setOfflineReady]);
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    toast('A new version is available', {
+      duration: Infinity,
+      action: { label: 'Reload', onClick: () => updateServiceWorker(true) },
+      onDismiss: () => setNeedRefresh(false),
+    });
+  }, [needRefresh, setNeedRefresh, updateServiceWorker]);
+
+  return null;
+};
+
+export default UpdatePrompt;
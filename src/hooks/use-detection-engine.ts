@@ -0,0 +1,421 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePersistentState } from '@/hooks/use-persistent-state';
+import { loadSetting } from '@/lib/storage';
+import { getDeviceKey, getFastestBackend, type BackendPreference, type BenchmarkRecord } from '@/lib/detection/backends';
+import { getCalibrationKey, type CalibrationStore, type CameraCalibration } from '@/lib/detection/calibration';
+import { CropClassifierCascade, DEFAULT_CASCADE, loadClassifier, type CascadeOptions } from '@/lib/detection/classifier';
+import { EMPTY_CLASS_FILTER, type ClassFilterConfig } from '@/lib/detection/class-filter';
+import { DEFAULT_DEPTH, DepthEstimator, loadDepthModel, type DepthOptions } from '@/lib/detection/depth';
+import { DetectionEngine, type DetectionEngineOptions } from '@/lib/detection/engine';
+import { DEFAULT_GROUND_PLANE, GroundPlaneEstimator, watchDevicePitch, type GroundPlaneOptions } from '@/lib/detection/ground';
+import { drawDetections, drawMotionMask, drawPoses, drawRegions, resizeCanvas, toNormalizedPoint } from '@/lib/detection/overlay';
+import type { MotionResult } from '@/lib/detection/motion';
+import { DEFAULT_POSE, loadPoseDetector, PoseEstimator, type PoseOptions } from '@/lib/detection/pose';
+import { EMPTY_REGION_CONFIG, type Region, type RegionConfig } from '@/lib/detection/regions';
+import { DEFAULT_MODEL, loadModel, type LoadModelOptions, type ModelSpec } from '@/lib/detection/registry';
+import { loadModelPreferWorker } from '@/lib/detection/worker-model';
+import { DEFAULT_SIZES, type SizeDatabase } from '@/lib/detection/sizes';
+import { DetectionSmoother, type SmoothingOptions } from '@/lib/detection/smoothing';
+import { CameraSource, type FrameSource } from '@/lib/detection/sources';
+import { ObjectTracker, type TrackerOptions } from '@/lib/detection/tracker';
+import type { Detection } from '@/lib/detection/types';
+
+// ms between two reads of the sensor pitch for display
+const PITCH_POLL_INTERVAL = 500;
+
+export interface UseDetectionEngineOptions extends Omit<DetectionEngineOptions, 'model'> {
+  modelSpec?: ModelSpec;
+  useWorker?: boolean;  // Run inference off the main thread when supported (default true)
+  tracker?: TrackerOptions;
+  smoothing?: Partial<SmoothingOptions>;
+}
+
+// React binding for DetectionEngine: owns the frame source, model loading and overlay drawing
+export function useDetectionEngine({ modelSpec: initialModelSpec, useWorker = true, tracker: trackerOptions, smoothing: smoothingOptions, ...options }: UseDetectionEngineOptions = {}) {
+  const viewRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<FrameSource | null>(null);
+  const [tracker] = useState(() => new ObjectTracker(trackerOptions));
+  const [smoother] = useState(() => new DetectionSmoother(smoothingOptions));
+  const [groundPlane] = useState(() => new GroundPlaneEstimator());
+  const [cascade] = useState(() => new CropClassifierCascade());
+  const [poseEstimator] = useState(() => new PoseEstimator());
+  const [depthEstimator] = useState(() => new DepthEstimator());
+  const [engine] = useState(() => new DetectionEngine({
+    ...options,
+    // Distance estimators work on the raw tracked boxes; the smoother then filters their combined output
+    postprocessors: [tracker.process, groundPlane.process, depthEstimator.process, smoother.process, ...(options.postprocessors ?? [])],
+    refiners: [depthEstimator.refresh, cascade.refine, poseEstimator.refine, ...(options.refiners ?? [])],
+  }));
+
+  const [modelSpec, setModelSpec] = useState<ModelSpec>(initialModelSpec ?? DEFAULT_MODEL);
+  const [isLoading, setIsLoading] = useState(true);
+  const [modelLoaded, setModelLoaded] = useState(false);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [detections, setDetections] = useState<Detection[]>([]);
+  const [fps, setFps] = useState(0);
+  const [latency, setLatency] = useState(0);
+  const [loadingStatus, setLoadingStatus] = useState('Initializing...');
+  const [loadingProgress, setLoadingProgress] = useState<number | null>(null);
+  const [backend, setBackend] = useState<string | null>(null);
+  const [backendPreference, setBackendPreference] = usePersistentState<BackendPreference>('backend', 'auto');
+  const [benchmark, setBenchmark] = usePersistentState<BenchmarkRecord | null>('backend-benchmark', null);
+  const [benchmarkRun, setBenchmarkRun] = useState(0);
+  const [classFilter, setClassFilter] = usePersistentState<ClassFilterConfig>('class-filter', EMPTY_CLASS_FILTER);
+  const [calibrations, setCalibrations] = usePersistentState<CalibrationStore>('calibrations', {});
+  const [calibrationKey, setCalibrationKey] = useState<string | null>(null);
+  const calibration = calibrationKey ? calibrations[calibrationKey] ?? null : null;
+  // Only edited classes are stored, so later additions to the defaults still reach users
+  const [sizeOverrides, setSizeOverrides] = usePersistentState<SizeDatabase>('object-sizes', {});
+  const sizes = useMemo(() => ({ ...DEFAULT_SIZES, ...sizeOverrides }), [sizeOverrides]);
+
+  const [cascadeOptions, setCascadeOptions] = usePersistentState<CascadeOptions>('cascade', DEFAULT_CASCADE);
+  const [poseOptions, setPoseOptions] = usePersistentState<PoseOptions>('pose', DEFAULT_POSE);
+  const [depthOptions, setDepthOptions] = usePersistentState<DepthOptions>('depth', DEFAULT_DEPTH);
+  const [groundPlaneOptions, setGroundPlaneOptions] = usePersistentState<GroundPlaneOptions>('ground-plane', DEFAULT_GROUND_PLANE);
+
+  const [regionConfig, setRegionConfig] = usePersistentState<RegionConfig>('regions', EMPTY_REGION_CONFIG);
+  const [draftRegion, setDraftRegion] = useState<Region | null>(null);
+  const lastDetectionsRef = useRef<Detection[]>([]);
+  const lastMotionRef = useRef<MotionResult | null>(null);
+
+  useEffect(() => {
+    engine.setOptions({ classFilter, regions: regionConfig });
+  }, [engine, classFilter, regionConfig]);
+
+  // Only live cameras are calibrated; recorded footage falls back to the default focal length
+  useEffect(() => {
+    engine.setOptions({ calibration });
+    groundPlane.setCalibration(calibration);
+  }, [engine, groundPlane, calibration]);
+
+  useEffect(() => {
+    engine.setOptions({ sizes });
+    groundPlane.setSizes(sizes);
+    depthEstimator.setSizes(sizes);
+  }, [engine, groundPlane, depthEstimator, sizes]);
+
+  useEffect(() => {
+    groundPlane.setOptions(groundPlaneOptions);
+  }, [groundPlane, groundPlaneOptions]);
+
+  // Follow the device tilt only while the ground plane reads its pitch from the sensor.
+  // Orientation events arrive at display rate, so the smoothed pitch is polled for rendering.
+  const { enabled: groundPlaneEnabled, pitchSource } = groundPlaneOptions;
+  const [sensorPitch, setSensorPitch] = useState<number | null>(null);
+  useEffect(() => {
+    if (!groundPlaneEnabled || pitchSource !== 'sensor') return;
+    groundPlane.reset();
+    setSensorPitch(null);
+    const unsubscribe = watchDevicePitch(pitch => groundPlane.updatePitch(pitch));
+    const timer = setInterval(() => setSensorPitch(groundPlane.getPitch()), PITCH_POLL_INTERVAL);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [groundPlane, groundPlaneEnabled, pitchSource]);
+  const pitch = pitchSource === 'manual' ? groundPlaneOptions.pitch : sensorPitch;
+
+  useEffect(() => {
+    cascade.setOptions(cascadeOptions);
+  }, [cascade, cascadeOptions]);
+
+  // Load the crop classifier only while refinement is switched on
+  const { enabled: cascadeEnabled, classifier: classifierSpec } = cascadeOptions;
+  useEffect(() => {
+    if (!cascadeEnabled) {
+      cascade.setClassifier(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadClassifier(classifierSpec)
+      .then(classifier => {
+        if (cancelled) classifier.dispose?.();
+        else cascade.setClassifier(classifier);
+      })
+      .catch(error => console.error('Error loading classifier:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [cascade, cascadeEnabled, classifierSpec]);
+
+  useEffect(() => {
+    poseEstimator.setOptions(poseOptions);
+  }, [poseEstimator, poseOptions]);
+
+  // Load the pose model only while pose estimation is switched on
+  const { enabled: poseEnabled, model: poseModel } = poseOptions;
+  useEffect(() => {
+    if (!poseEnabled) {
+      poseEstimator.setDetector(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadPoseDetector(poseModel)
+      .then(detector => {
+        if (cancelled) detector.dispose();
+        else poseEstimator.setDetector(detector);
+      })
+      .catch(error => console.error('Error loading pose model:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [poseEstimator, poseEnabled, poseModel]);
+
+  useEffect(() => {
+    depthEstimator.setOptions(depthOptions);
+  }, [depthEstimator, depthOptions]);
+
+  // Load the depth model only while it is switched on and configured
+  const { enabled: depthEnabled, model: depthSpec } = depthOptions;
+  useEffect(() => {
+    if (!depthEnabled || !depthSpec) {
+      depthEstimator.setModel(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadDepthModel(depthSpec)
+      .then(model => {
+        if (cancelled) model.dispose();
+        else depthEstimator.setModel(model);
+      })
+      .catch(error => console.error('Error loading depth model:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [depthEstimator, depthEnabled, depthSpec]);
+
+  // Repaint zones and the latest boxes on the overlay
+  const redraw = useCallback(() => {
+    const source = sourceRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    if (source) resizeCanvas(canvas, source.width, source.height);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const motion = lastMotionRef.current;
+    if (motion && engine.getOptions().motion.showMask) drawMotionMask(ctx, motion);
+    drawRegions(ctx, regionConfig.regions, draftRegion);
+    drawPoses(ctx, lastDetectionsRef.current, poseOptions.minKeypointScore);
+    drawDetections(ctx, lastDetectionsRef.current);
+  }, [engine, regionConfig, draftRegion, poseOptions.minKeypointScore]);
+
+  useEffect(() => {
+    redraw();
+  }, [redraw]);
+
+  // Append a vertex to the zone being drawn from a pointer position on the overlay
+  const addDraftPoint = useCallback((clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const point = toNormalizedPoint(canvas, clientX, clientY);
+    setDraftRegion(draft => (draft ? { ...draft, points: [...draft.points, point] } : draft));
+  }, []);
+
+  // Load (or swap) the model whenever the spec changes
+  useEffect(() => {
+    let cancelled = false;
+
+    // Reuse this device's benchmark winner unless the user picked a backend; read from storage
+    // so that saving a fresh benchmark does not trigger another load
+    const remembered = loadSetting<BenchmarkRecord | null>('backend-benchmark', null);
+    const backend = backendPreference !== 'auto' || remembered?.device !== getDeviceKey()
+      ? backendPreference
+      : remembered.backend;
+    const loadOptions: LoadModelOptions = {
+      backend,
+      onBenchmark: results => {
+        const fastest = getFastestBackend(results);
+        if (fastest) setBenchmark({ device: getDeviceKey(), backend: fastest, results });
+      },
+      onProgress: setLoadingProgress,
+    };
+
+    const load = async () => {
+      setIsLoading(true);
+      setModelLoaded(false);
+      setLoadingProgress(null);
+      try {
+        const model = useWorker
+          ? await loadModelPreferWorker(modelSpec, setLoadingStatus, loadOptions)
+          : await loadModel(modelSpec, setLoadingStatus, loadOptions);
+        if (cancelled) {
+          model.dispose?.();
+          return;
+        }
+        const previous = engine.getModel();
+        engine.setModel(model);
+        previous?.dispose?.();
+        setBackend(model.backend ?? null);
+        setModelLoaded(true);
+        setLoadingStatus('Model loaded successfully!');
+      } catch (error) {
+        console.error('Error loading model:', error);
+        setLoadingStatus(`Error: ${error.message}`);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [engine, modelSpec, useWorker, backendPreference, benchmarkRun, setBenchmark]);
+
+  // Release the source and take its element out of the view
+  const releaseSource = useCallback(() => {
+    const source = sourceRef.current;
+    if (!source) return;
+    source.stop();
+    source.element.remove();
+    sourceRef.current = null;
+    setCalibrationKey(null);
+    tracker.reset();
+    smoother.reset();
+    poseEstimator.reset();
+    depthEstimator.reset();
+    lastMotionRef.current = null;
+    setFps(0);
+  }, [tracker, smoother, poseEstimator, depthEstimator]);
+
+  // Mirror engine events into React state and the overlay canvas
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('detections', newDetections => {
+        setDetections(newDetections);
+        lastDetectionsRef.current = newDetections;
+        redraw();
+      }),
+      engine.on('motion', motion => {
+        lastMotionRef.current = motion;
+        if (engine.getOptions().motion.showMask) redraw();
+      }),
+      engine.on('fps', value => {
+        setFps(value);
+        setLatency(engine.getLatency());
+      }),
+      engine.on('state', state => {
+        setIsDetecting(state !== 'idle');
+        // Sources such as video files end on their own
+        if (state === 'idle') releaseSource();
+      }),
+      engine.on('error', error => console.error('Detection error:', error)),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [engine, releaseSource, redraw]);
+
+  // Start detecting on any frame source (the back camera by default)
+  const start = useCallback(async (source: FrameSource = new CameraSource()) => {
+    releaseSource();
+    try {
+      await source.start();
+      const view = viewRef.current;
+      if (!view) {
+        source.stop();
+        return;
+      }
+
+      console.log(`Frame source ready (${source.kind}), starting detection...`);
+      view.appendChild(source.element);
+      sourceRef.current = source;
+      setCalibrationKey(source instanceof CameraSource ? getCalibrationKey(getDeviceKey(), source.getDeviceId()) : null);
+      engine.start(source);
+    } catch (error) {
+      console.error('Frame source error:', error);
+      source.stop();
+    }
+  }, [engine, releaseSource]);
+
+  // Stop detection and release the source
+  const stop = useCallback(() => {
+    engine.stop();
+    releaseSource();
+  }, [engine, releaseSource]);
+
+  // Switching models unmounts the video while loading, so stop first
+  const selectModel = useCallback((spec: ModelSpec) => {
+    stop();
+    setModelSpec(spec);
+  }, [stop]);
+
+  // Switching backends reloads the model, so stop first
+  const selectBackend = useCallback((backend: BackendPreference) => {
+    stop();
+    setBackendPreference(backend);
+  }, [stop, setBackendPreference]);
+
+  // Forget this device's benchmark and measure the backends again
+  const rerunBenchmark = useCallback(() => {
+    stop();
+    setBenchmark(null);
+    setBackendPreference('auto');
+    setBenchmarkRun(run => run + 1);
+  }, [stop, setBenchmark, setBackendPreference]);
+
+  // Store or forget the focal length of the camera that is currently running
+  const saveCalibration = useCallback((next: CameraCalibration | null) => {
+    if (!calibrationKey) return;
+    setCalibrations(previous => {
+      const { [calibrationKey]: _previous, ...rest } = previous;
+      return next ? { ...rest, [calibrationKey]: next } : rest;
+    });
+  }, [calibrationKey, setCalibrations]);
+
+  // Cleanup on unmount
+  useEffect(() => stop, [stop]);
+
+  return {
+    engine,
+    tracker,
+    smoother,
+    viewRef,
+    canvasRef,
+    isLoading,
+    modelLoaded,
+    isDetecting,
+    detections,
+    fps,
+    latency,
+    loadingStatus,
+    loadingProgress,
+    backend,
+    modelSpec,
+    selectModel,
+    backendPreference,
+    selectBackend,
+    benchmark,
+    rerunBenchmark,
+    classFilter,
+    setClassFilter,
+    calibration,
+    calibrationKey,
+    saveCalibration,
+    sizes,
+    sizeOverrides,
+    setSizeOverrides,
+    cascadeOptions,
+    setCascadeOptions,
+    poseEstimator,
+    poseOptions,
+    setPoseOptions,
+    depthEstimator,
+    depthOptions,
+    setDepthOptions,
+    groundPlane,
+    groundPlaneOptions,
+    setGroundPlaneOptions,
+    pitch,
+    regionConfig,
+    setRegionConfig,
+    draftRegion,
+    setDraftRegion,
+    addDraftPoint,
+    start,
+    stop,
+  };
+}
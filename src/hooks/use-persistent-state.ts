@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { loadSetting, saveSetting } from '@/lib/storage';
+
+// useState backed by localStorage under the given key
+export function usePersistentState<T>(key: string, fallback: T) {
+  const [value, setValue] = useState<T>(() => loadSetting(key, fallback));
+
+  useEffect(() => {
+    saveSetting(key, value);
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
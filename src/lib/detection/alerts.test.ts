@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { generateAlertMessage, isConfidentDistance } from './alerts';
+import type { Detection } from './types';
+
+const person = (distance: number, distanceStd: number, distanceConflict?: boolean): Detection => ({
+  id: 'person-1', class: 'person', bbox: [100, 100, 50, 150], score: 0.9, distance, distanceStd, distanceConflict, direction: 'Left',
+});
+
+describe('isConfidentDistance', () => {
+  it('compares the relative distance error with each level', () => {
+    const sure = person(2, 0.4);
+    const unsure = person(2, 0.8);
+    expect(isConfidentDistance(sure, 'high')).toBe(true);
+    expect(isConfidentDistance(unsure, 'high')).toBe(false);
+    expect(isConfidentDistance(unsure, 'medium')).toBe(true);
+    expect(isConfidentDistance(person(2, 1.2), 'medium')).toBe(false);
+    expect(isConfidentDistance(person(2, 1.2), 'any')).toBe(true);
+  });
+
+  it('never trusts distances the estimators disagree on', () => {
+    expect(isConfidentDistance(person(2, 0.1, true), 'high')).toBe(false);
+    expect(isConfidentDistance(person(2, 0.1, true), 'medium')).toBe(false);
+    expect(isConfidentDistance(person(2, 0.1, true), 'any')).toBe(true);
+  });
+});
+
+describe('generateAlertMessage', () => {
+  it('only announces confident close objects as approaching', () => {
+    expect(generateAlertMessage(person(2, 0.2))).toBe('person approaching within 2.0 meters on the Left');
+    expect(generateAlertMessage(person(2, 0.8))).toBe('person detected 2.0 meters away on the Left');
+    expect(generateAlertMessage(person(2, 0.8), 'medium')).toBe('person approaching within 2.0 meters on the Left');
+  });
+});
@@ -0,0 +1,49 @@
+import { getDistanceError } from './distance';
+import { getDisplayLabel } from './labels';
+import type { Detection } from './types';
+
+// How sure a distance must be before an object is announced as approaching
+export type AlertConfidence = 'any' | 'medium' | 'high';
+
+// Largest relative distance error each level accepts
+const MAX_APPROACH_ERROR: Record<AlertConfidence, number> = { any: Infinity, medium: 0.5, high: 0.25 };
+
+// Distances the estimation methods disagree on are never confident
+export const isConfidentDistance = (detection: Detection, confidence: AlertConfidence): boolean =>
+  confidence === 'any' || (!detection.distanceConflict && getDistanceError(detection) <= MAX_APPROACH_ERROR[confidence]);
+
+// Generate voice alert message; close objects with unsure distances are reported without "approaching"
+export const generateAlertMessage = (detection: Detection, confidence: AlertConfidence = 'high'): string => {
+  const { distance, direction } = detection;
+  const className = getDisplayLabel(detection);
+
+  if (distance < 3 && isConfidentDistance(detection, confidence)) {
+    return `${className} approaching within ${distance.toFixed(1)} meters on the ${direction}`;
+  } else if (distance < 5) {
+    return `${className} detected ${distance.toFixed(1)} meters away on the ${direction}`;
+  } else {
+    return `${className} detected about ${distance.toFixed(1)} meters in the ${direction}`;
+  }
+};
+
+// Spoken when a tracked person goes from standing to lying
+export const generateFallMessage = (detection: Detection): string =>
+  `Possible fall detected, ${getDisplayLabel(detection)} on the ${detection.direction}, ${detection.distance.toFixed(1)} meters away`;
+
+// Speak unless an utterance is already playing; urgent messages cut it off instead
+export const speak = (message: string, urgent = false): void => {
+  const synth = window.speechSynthesis;
+  if (!synth) return;
+  if (synth.speaking) {
+    if (!urgent) return;
+    synth.cancel();
+  }
+
+  const utterance = new SpeechSynthesisUtterance(message);
+  utterance.lang = 'en-US';
+  utterance.rate = 0.9;
+  utterance.pitch = 1.0;
+  utterance.volume = 0.8;
+  synth.speak(utterance);
+  console.log('Voice alert:', message);
+};
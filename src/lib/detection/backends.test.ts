@@ -0,0 +1,52 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { benchmarkBackends, getFastestBackend } from './backends';
+import type { DetectionModel } from './types';
+
+vi.mock('@tensorflow/tfjs', () => ({
+  setBackend: vi.fn(),
+  zeros: vi.fn(() => ({ dispose: vi.fn() })),
+}));
+
+vi.mock('@tensorflow/tfjs-backend-wasm', () => ({ setWasmPaths: vi.fn() }));
+
+describe('getFastestBackend', () => {
+  it('picks the lowest latency among working backends', () => {
+    expect(getFastestBackend([
+      { backend: 'webgl', latency: null, error: 'Not supported on this device' },
+      { backend: 'wasm', latency: 40 },
+      { backend: 'cpu', latency: 200 },
+    ])).toBe('wasm');
+  });
+
+  it('returns null when every backend failed', () => {
+    expect(getFastestBackend([{ backend: 'webgl', latency: null }, { backend: 'cpu', latency: null }])).toBeNull();
+    expect(getFastestBackend([])).toBeNull();
+  });
+});
+
+describe('benchmarkBackends', () => {
+  beforeEach(() => {
+    vi.mocked(tf.setBackend).mockReset();
+  });
+
+  it('records unsupported and failing backends without stopping', async () => {
+    vi.mocked(tf.setBackend).mockImplementation(async backend => backend !== 'webgl');
+    const dispose = vi.fn();
+    const load = vi.fn(async (): Promise<DetectionModel> => {
+      if (vi.mocked(tf.setBackend).mock.lastCall[0] === 'cpu') throw new Error('Out of memory');
+      return { name: 'fake', detect: async () => [], dispose };
+    });
+    const statuses: string[] = [];
+
+    const results = await benchmarkBackends(load, status => statuses.push(status));
+    expect(results.map(result => result.backend)).toEqual(['webgl', 'wasm', 'cpu']);
+    expect(results[0]).toEqual({ backend: 'webgl', latency: null, error: 'Not supported on this device' });
+    expect(results[1].latency).toBeGreaterThanOrEqual(0);
+    expect(results[2]).toEqual({ backend: 'cpu', latency: null, error: 'Out of memory' });
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(dispose).toHaveBeenCalledTimes(1);
+    expect(statuses).toHaveLength(3);
+    expect(getFastestBackend(results)).toBe('wasm');
+  });
+});
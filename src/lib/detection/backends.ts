@@ -0,0 +1,85 @@
+import * as tf from '@tensorflow/tfjs';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import wasmUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+import type { DetectionModel } from './types';
+
+// The WASM backend picks the SIMD and threaded builds itself when the browser supports them
+// (threads additionally need a cross-origin isolated page)
+setWasmPaths({
+  'tfjs-backend-wasm.wasm': wasmUrl,
+  'tfjs-backend-wasm-simd.wasm': wasmSimdUrl,
+  'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdUrl,
+});
+
+export type BackendName = 'webgl' | 'wasm' | 'cpu';
+
+// 'auto' benchmarks every backend and keeps the fastest
+export type BackendPreference = BackendName | 'auto';
+
+export const BACKENDS: BackendName[] = ['webgl', 'wasm', 'cpu'];
+
+export interface BackendBenchmark {
+  backend: BackendName;
+  latency: number | null;  // Mean ms per detect call after warm-up; null when the backend failed
+  error?: string;
+}
+
+// Benchmark outcome remembered per device
+export interface BenchmarkRecord {
+  device: string;
+  backend: BackendName;
+  results: BackendBenchmark[];
+}
+
+type StatusCallback = (status: string) => void;
+
+// Side of the blank square frame used for timing
+const BENCHMARK_SIZE = 320;
+const TIMED_RUNS = 3;
+
+// Browser and GPU updates change which backend wins, so the user agent identifies the device
+export const getDeviceKey = (): string => navigator.userAgent;
+
+// Load the model on each backend, warm it up once and time a few detect calls
+export const benchmarkBackends = async (
+  load: () => Promise<DetectionModel>,
+  onStatus?: StatusCallback,
+  backends: BackendName[] = BACKENDS,
+): Promise<BackendBenchmark[]> => {
+  const results: BackendBenchmark[] = [];
+
+  for (const backend of backends) {
+    onStatus?.(`Benchmarking ${backend} backend...`);
+    let model: DetectionModel | null = null;
+    let frame: tf.Tensor3D | null = null;
+    try {
+      if (!(await tf.setBackend(backend))) {
+        results.push({ backend, latency: null, error: 'Not supported on this device' });
+        continue;
+      }
+      model = await load();
+      frame = tf.zeros([BENCHMARK_SIZE, BENCHMARK_SIZE, 3], 'int32');
+      await model.detect(frame);
+
+      const start = performance.now();
+      for (let i = 0; i < TIMED_RUNS; i++) {
+        await model.detect(frame);
+      }
+      results.push({ backend, latency: (performance.now() - start) / TIMED_RUNS });
+    } catch (error) {
+      results.push({ backend, latency: null, error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      frame?.dispose();
+      model?.dispose?.();
+    }
+  }
+
+  return results;
+};
+
+export const getFastestBackend = (results: BackendBenchmark[]): BackendName | null =>
+  results
+    .filter(result => result.latency !== null)
+    .sort((a, b) => a.latency - b.latency)[0]?.backend ?? null;
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { measureCalibration } from './calibration';
+import { DetectionEngine } from './engine';
+import type { BBox, FrameInput, Postprocessor, Prediction } from './types';
+
+const input = { width: 640, height: 480 } as unknown as FrameInput;
+const person = (bbox: BBox): Prediction => ({ class: 'person', bbox, score: 0.9 });
+
+// Engine reporting as running whose model returns the given boxes, one frame per call
+const runningEngine = (postprocessors: Postprocessor[] = []) => {
+  let next: Prediction[] = [];
+  const engine = new DetectionEngine({ model: { name: 'fake', detect: async () => next }, postprocessors });
+  engine.getState = () => 'running';
+  const feed = async (predictions: Prediction[]) => {
+    next = predictions;
+    await engine.processFrame(input, 0);
+  };
+  return { engine, feed };
+};
+
+describe('measureCalibration', () => {
+  const target = { className: 'person', realHeight: 1.7, distance: 3 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('measures raw boxes rather than the postprocessed detections', async () => {
+    // Stands in for a smoother lagging behind
+    const shrink: Postprocessor = detections => detections.map(detection => ({ ...detection, bbox: [100, 100, 50, 100] }));
+    const { engine, feed } = runningEngine([shrink]);
+    const measuring = measureCalibration(engine, target, 3);
+    for (let i = 0; i < 3; i++) await feed([person([100, 100, 60, 170])]);
+
+    const calibration = await measuring;
+    expect(calibration.focalLength).toBeCloseTo(170 * 3 / 1.7);
+    expect(calibration.height).toBe(480);
+  });
+
+  it('skips boxes cut off by the frame edge', async () => {
+    const { engine, feed } = runningEngine();
+    const measuring = measureCalibration(engine, target, 2);
+    await feed([person([100, 0, 60, 300])]);
+    await feed([person([100, 100, 60, 200])]);
+    await feed([person([100, 300, 60, 180])]);
+    await feed([person([100, 100, 60, 200])]);
+
+    expect((await measuring).focalLength).toBeCloseTo(200 * 3 / 1.7);
+  });
+
+  it('gives up when the target stays cut off', async () => {
+    const { engine, feed } = runningEngine();
+    const measuring = measureCalibration(engine, target, 2);
+    for (let i = 0; i < 4; i++) await feed([person([0, 0, 300, 480])]);
+    await expect(measuring).rejects.toThrow(/whole person in view/);
+  });
+
+  it('gives up when the target never shows', async () => {
+    const { engine, feed } = runningEngine();
+    const measuring = measureCalibration(engine, target, 2);
+    for (let i = 0; i < 7; i++) await feed([{ class: 'chair', bbox: [100, 100, 60, 100], score: 0.9 }]);
+    await feed([person([100, 100, 60, 200])]);
+    await feed([]);
+    await expect(measuring).rejects.toThrow('No person found in 8 frames');
+  });
+
+  it('times out when no frames arrive', async () => {
+    vi.useFakeTimers();
+    const { engine } = runningEngine();
+    const measuring = measureCalibration(engine, target, 2);
+    const rejected = expect(measuring).rejects.toThrow(/timed out/);
+    await vi.advanceTimersByTimeAsync(30000);
+    await rejected;
+  });
+});
@@ -0,0 +1,113 @@
+import type { DetectionEngine } from './engine';
+import type { BBox, FrameInfo } from './types';
+
+// Effective focal length of one camera, measured at the resolution it was calibrated at
+export interface CameraCalibration {
+  focalLength: number;  // pixels
+  width: number;
+  height: number;
+  calibratedAt: number;
+}
+
+// Calibrations keyed by getCalibrationKey
+export type CalibrationStore = Record<string, CameraCalibration>;
+
+export interface CalibrationTarget {
+  className: string;
+  realHeight: number;  // meters
+  distance: number;    // meters from the camera, measured by the user
+}
+
+// Frames of the target averaged into one measurement
+const CALIBRATION_SAMPLES = 15;
+// Raw boxes below this score are too loosely fitted to measure
+const MIN_SAMPLE_SCORE = 0.5;
+// Boxes this close to the frame edge are cut off and too short
+const EDGE_MARGIN = 2;
+// Frames without the target, per sample, before measuring gives up
+const MAX_MISSES_PER_SAMPLE = 4;
+// ms before measuring gives up, e.g. while detection is paused
+const CALIBRATION_TIMEOUT = 30000;
+
+// Cameras are told apart by device (see getDeviceKey) and camera ID; sources without an ID share one entry per device
+export const getCalibrationKey = (device: string, cameraId?: string): string => `${device}|${cameraId ?? 'default'}`;
+
+// Pinhole model: pixelHeight / focalLength = realHeight / distance
+export const computeFocalLength = (pixelHeight: number, { realHeight, distance }: CalibrationTarget): number =>
+  (pixelHeight * distance) / realHeight;
+
+// The focal length in pixels scales with the frame, assuming the camera keeps its field of view
+export const getFocalLength = (calibration: CameraCalibration, frame: Pick<FrameInfo, 'height'>): number =>
+  (calibration.focalLength * frame.height) / calibration.height;
+
+const isTruncated = ([x, y, width, height]: BBox, frame: FrameInfo): boolean =>
+  x <= EDGE_MARGIN || y <= EDGE_MARGIN || x + width >= frame.width - EDGE_MARGIN || y + height >= frame.height - EDGE_MARGIN;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Watch the running engine for the target class and compute the focal length from the median
+// box height of its largest raw detection over several frames. Raw boxes are measured because
+// smoothed ones lag behind and held ones may be stale; frames where the target is cut off by the
+// frame edge are skipped. Gives up when the target is missing from too many frames or the
+// measurement times out.
+export const measureCalibration = (engine: DetectionEngine, target: CalibrationTarget, samples = CALIBRATION_SAMPLES): Promise<CameraCalibration> => {
+  if (engine.getState() !== 'running') {
+    return Promise.reject(new Error('Start detection to calibrate'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const heights: number[] = [];
+    let truncatedFrames = 0;
+    let missedFrames = 0;
+
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`Calibration timed out after ${CALIBRATION_TIMEOUT / 1000} s; keep the ${target.className} in view while detection runs`));
+    }, CALIBRATION_TIMEOUT);
+
+    const unsubscribers = [
+      engine.on('result', ({ frame, predictions }) => {
+        const matches = predictions.filter(prediction => prediction.class === target.className && prediction.score >= MIN_SAMPLE_SCORE);
+        if (matches.length === 0) {
+          missedFrames++;
+          if (missedFrames >= samples * MAX_MISSES_PER_SAMPLE) {
+            finish();
+            reject(new Error(`No ${target.className} found in ${missedFrames} frames; point the camera at one and try again`));
+          }
+          return;
+        }
+        const { bbox } = matches.reduce((largest, prediction) => (prediction.bbox[3] > largest.bbox[3] ? prediction : largest));
+        if (isTruncated(bbox, frame)) {
+          truncatedFrames++;
+          if (truncatedFrames >= samples * 2) {
+            finish();
+            reject(new Error(`Keep the whole ${target.className} in view, away from the frame edges`));
+          }
+          return;
+        }
+        heights.push(bbox[3]);
+        if (heights.length < samples) return;
+
+        finish();
+        resolve({
+          focalLength: computeFocalLength(median(heights), target),
+          width: frame.width,
+          height: frame.height,
+          calibratedAt: Date.now(),
+        });
+      }),
+      engine.on('state', state => {
+        if (state !== 'idle') return;
+        finish();
+        reject(new Error('Detection stopped before calibration finished'));
+      }),
+    ];
+    const finish = () => {
+      clearTimeout(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  });
+};
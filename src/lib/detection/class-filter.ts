@@ -0,0 +1,57 @@
+import type { Prediction } from './types';
+
+export interface ClassFilterConfig {
+  allowlist: string[];   // When non-empty, only these classes are kept
+  denylist: string[];    // Always dropped
+  thresholds: Record<string, number>;  // Per-class minimum score, overriding the global one
+}
+
+export const EMPTY_CLASS_FILTER: ClassFilterConfig = {
+  allowlist: [],
+  denylist: [],
+  thresholds: {},
+};
+
+export type ClassRule = 'default' | 'allow' | 'deny';
+
+export const getClassRule = (config: ClassFilterConfig, className: string): ClassRule => {
+  if (config.denylist.includes(className)) return 'deny';
+  if (config.allowlist.includes(className)) return 'allow';
+  return 'default';
+};
+
+export const setClassRule = (config: ClassFilterConfig, className: string, rule: ClassRule): ClassFilterConfig => ({
+  ...config,
+  allowlist: rule === 'allow'
+    ? [...config.allowlist.filter(name => name !== className), className]
+    : config.allowlist.filter(name => name !== className),
+  denylist: rule === 'deny'
+    ? [...config.denylist.filter(name => name !== className), className]
+    : config.denylist.filter(name => name !== className),
+});
+
+export const setClassThreshold = (config: ClassFilterConfig, className: string, threshold: number | null): ClassFilterConfig => {
+  const thresholds = { ...config.thresholds };
+  if (threshold === null) {
+    delete thresholds[className];
+  } else {
+    thresholds[className] = threshold;
+  }
+  return { ...config, thresholds };
+};
+
+// Score the class must exceed to pass the filter
+export const getClassThreshold = (config: ClassFilterConfig | null, className: string, minScore: number): number =>
+  config?.thresholds[className] ?? minScore;
+
+// Lowest score any class can pass with, so the detector is never asked to cut above it
+export const getLowestThreshold = (config: ClassFilterConfig, minScore: number): number =>
+  Math.min(minScore, ...Object.values(config.thresholds));
+
+// Drop denied or non-allowed classes and apply per-class score thresholds
+export const applyClassFilter = <T extends Prediction>(items: T[], config: ClassFilterConfig, minScore: number): T[] =>
+  items.filter(item => {
+    if (config.denylist.includes(item.class)) return false;
+    if (config.allowlist.length > 0 && !config.allowlist.includes(item.class)) return false;
+    return item.score > getClassThreshold(config, item.class, minScore);
+  });
@@ -0,0 +1,94 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { CropClassifierCascade, type ImageClassifier } from './classifier';
+import type { Detection, FrameInfo } from './types';
+
+const frame = (timestamp: number): FrameInfo => ({ width: 64, height: 48, timestamp });
+
+const detection = (id: string, className: string, score: number): Detection => ({
+  id, class: className, bbox: [8, 8, 16, 16], score, distance: 3, distanceStd: 0.3, direction: 'Center',
+});
+
+const fakeClassifier = (score = 0.8): ImageClassifier & { classify: ReturnType<typeof vi.fn> } => ({
+  name: 'fake',
+  classify: vi.fn(async () => [{ label: 'beagle', score }, { label: 'basset', score: 0.1 }]),
+  dispose: vi.fn(),
+});
+
+describe('CropClassifierCascade', () => {
+  let input: tf.Tensor3D;
+
+  beforeAll(async () => {
+    await tf.setBackend('cpu');
+    input = tf.zeros([48, 64, 3], 'int32');
+  });
+
+  it('refines selected classes, best detector score first, up to maxCrops', async () => {
+    const classifier = fakeClassifier();
+    const cascade = new CropClassifierCascade({ enabled: true, classes: ['dog'], maxCrops: 1 });
+    cascade.setClassifier(classifier);
+
+    const detections = [detection('dog-1', 'dog', 0.6), detection('dog-2', 'dog', 0.9), detection('person-1', 'person', 0.9)];
+    const refined = await cascade.refine(input, detections, frame(0));
+
+    expect(classifier.classify).toHaveBeenCalledTimes(1);
+    expect(refined.map(item => item.refinement?.label)).toEqual([undefined, 'beagle', undefined]);
+  });
+
+  it('reuses cached labels until refreshInterval has passed', async () => {
+    const classifier = fakeClassifier();
+    const cascade = new CropClassifierCascade({ enabled: true, classes: ['dog'], refreshInterval: 1000 });
+    cascade.setClassifier(classifier);
+    const dog = detection('dog-1', 'dog', 0.9);
+
+    await cascade.refine(input, [dog], frame(0));
+    const [cached] = await cascade.refine(input, [dog], frame(500));
+    expect(cached.refinement).toEqual({ label: 'beagle', score: 0.8 });
+    expect(classifier.classify).toHaveBeenCalledTimes(1);
+
+    await cascade.refine(input, [dog], frame(1000));
+    expect(classifier.classify).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops cache entries of ids that left and classifies them again on return', async () => {
+    const classifier = fakeClassifier();
+    const cascade = new CropClassifierCascade({ enabled: true, classes: ['dog'], refreshInterval: 1000 });
+    cascade.setClassifier(classifier);
+    const dog = detection('dog-1', 'dog', 0.9);
+
+    await cascade.refine(input, [dog], frame(0));
+    await cascade.refine(input, [], frame(100));
+    await cascade.refine(input, [dog], frame(200));
+    expect(classifier.classify).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves low-confidence labels off, but still caches them', async () => {
+    const classifier = fakeClassifier(0.2);
+    const cascade = new CropClassifierCascade({ enabled: true, classes: ['dog'], minScore: 0.3 });
+    cascade.setClassifier(classifier);
+    const dog = detection('dog-1', 'dog', 0.9);
+
+    const [refined] = await cascade.refine(input, [dog], frame(0));
+    expect(refined.refinement).toBeUndefined();
+    await cascade.refine(input, [dog], frame(100));
+    expect(classifier.classify).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the cache when options or the classifier change', async () => {
+    const classifier = fakeClassifier();
+    const cascade = new CropClassifierCascade({ enabled: true, classes: ['dog'] });
+    cascade.setClassifier(classifier);
+    const dog = detection('dog-1', 'dog', 0.9);
+
+    await cascade.refine(input, [dog], frame(0));
+    cascade.setOptions({ minScore: 0.5 });
+    await cascade.refine(input, [dog], frame(100));
+    expect(classifier.classify).toHaveBeenCalledTimes(2);
+
+    const next = fakeClassifier();
+    cascade.setClassifier(next);
+    expect(classifier.dispose).toHaveBeenCalled();
+    await cascade.refine(input, [dog], frame(200));
+    expect(next.classify).toHaveBeenCalledTimes(1);
+  });
+});
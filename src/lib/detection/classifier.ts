@@ -0,0 +1,189 @@
+import * as tf from '@tensorflow/tfjs';
+import * as mobilenet from '@tensorflow-models/mobilenet';
+import type { Detection, FrameInfo, FrameInput, Refinement } from './types';
+
+export interface ImageClassifier {
+  readonly name: string;
+  classify(image: tf.Tensor3D): Promise<Refinement[]>;  // RGB crop with 0..255 values, best first
+  dispose?(): void;
+}
+
+export interface MobileNetClassifierSpec {
+  type: 'mobilenet';
+  version?: mobilenet.MobileNetVersion;
+  alpha?: mobilenet.MobileNetAlpha;
+  modelUrl?: string;
+}
+
+export interface GraphClassifierSpec {
+  type: 'graph';
+  name?: string;
+  source: string | File[];          // model.json URL, or model.json plus weight shards picked locally
+  labels: string[];
+  inputSize?: number;               // Square input side in pixels (224 when omitted)
+  inputRange?: [number, number];    // Pixel range the model was trained on ([0, 1] when omitted)
+}
+
+export type ClassifierSpec = MobileNetClassifierSpec | GraphClassifierSpec;
+
+export interface CascadeOptions {
+  enabled: boolean;
+  classifier: ClassifierSpec;
+  classes: string[];        // Detector classes whose crops are classified
+  minScore: number;         // Refinements below this score are dropped
+  maxCrops: number;         // Crops classified per frame, highest detector score first
+  refreshInterval: number;  // ms before the same id is classified again
+  padding: number;          // Context around each box as a share of its size
+}
+
+export const DEFAULT_CASCADE: CascadeOptions = {
+  enabled: false,
+  classifier: { type: 'mobilenet', version: 2, alpha: 1.0 },
+  classes: ['dog', 'cat', 'bird', 'car'],
+  minScore: 0.3,
+  maxCrops: 3,
+  refreshInterval: 2000,
+  padding: 0.1,
+};
+
+const TOP_K = 3;
+const CROP_SIZE = 224;
+
+// ImageNet names list synonyms ("tabby, tabby cat"); the first reads best
+const cleanLabel = (label: string): string => label.split(',')[0].trim();
+
+export const createMobileNetClassifier = (model: mobilenet.MobileNet, name: string): ImageClassifier => ({
+  name,
+  classify: async (image: tf.Tensor3D): Promise<Refinement[]> =>
+    (await model.classify(image, TOP_K)).map(({ className, probability }) => ({
+      label: cleanLabel(className),
+      score: probability,
+    })),
+});
+
+// Adapt a TF.js graph model with a single softmax output to the ImageClassifier interface
+export const createGraphClassifier = (model: tf.GraphModel, spec: GraphClassifierSpec): ImageClassifier => {
+  const size = spec.inputSize ?? CROP_SIZE;
+  const [low, high] = spec.inputRange ?? [0, 1];
+
+  return {
+    name: spec.name ?? 'custom-classifier',
+    classify: async (image: tf.Tensor3D): Promise<Refinement[]> => {
+      const scores = tf.tidy(() => {
+        const batch = tf.image.resizeBilinear(image, [size, size]).div(255).mul(high - low).add(low).expandDims(0);
+        return (model.predict(batch) as tf.Tensor).reshape([-1]);
+      });
+      const values = await scores.data();
+      scores.dispose();
+      return Array.from(values, (score, i) => ({ label: spec.labels[i] ?? `class ${i}`, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, TOP_K);
+    },
+    dispose: () => model.dispose(),
+  };
+};
+
+export const loadClassifier = async (spec: ClassifierSpec): Promise<ImageClassifier> => {
+  await tf.ready();
+  if (spec.type === 'mobilenet') {
+    const version = spec.version ?? 2;
+    const model = await mobilenet.load({ version, alpha: spec.alpha ?? 1.0, modelUrl: spec.modelUrl });
+    console.log(`MobileNet v${version} classifier loaded`);
+    return createMobileNetClassifier(model, `mobilenet/v${version}`);
+  }
+
+  const handler = typeof spec.source === 'string' ? spec.source : tf.io.browserFiles(spec.source);
+  const model = await tf.loadGraphModel(handler);
+  console.log(`Graph classifier ${spec.name ?? ''} loaded`);
+  return createGraphClassifier(model, spec);
+};
+
+// Second pipeline stage: classify crops of selected detections and attach the finer label.
+// Results are kept per detection id, so with the tracker each object is only re-checked
+// every refreshInterval ms.
+export class CropClassifierCascade {
+  private options: CascadeOptions;
+  private classifier: ImageClassifier | null = null;
+  private cache = new Map<string, { refinement: Refinement | null; time: number }>();
+
+  constructor(options: Partial<CascadeOptions> = {}) {
+    this.options = { ...DEFAULT_CASCADE, ...options };
+  }
+
+  getOptions(): Readonly<CascadeOptions> {
+    return this.options;
+  }
+
+  setOptions(options: Partial<CascadeOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.cache.clear();
+  }
+
+  getClassifier(): ImageClassifier | null {
+    return this.classifier;
+  }
+
+  // Takes ownership: the previous classifier is disposed
+  setClassifier(classifier: ImageClassifier | null): void {
+    if (classifier === this.classifier) return;
+    this.classifier?.dispose?.();
+    this.classifier = classifier;
+    this.cache.clear();
+  }
+
+  refine = async (input: FrameInput, detections: Detection[], frame: FrameInfo): Promise<Detection[]> => {
+    const { enabled, classes, minScore, maxCrops, refreshInterval, padding } = this.options;
+    const classifier = this.classifier;
+    if (!enabled || !classifier) return detections;
+
+    const ids = new Set(detections.map(detection => detection.id));
+    [...this.cache.keys()].forEach(id => {
+      if (!ids.has(id)) this.cache.delete(id);
+    });
+
+    const due = detections
+      .filter(detection => {
+        if (!classes.includes(detection.class)) return false;
+        const cached = this.cache.get(detection.id);
+        return !cached || frame.timestamp - cached.time >= refreshInterval;
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxCrops);
+
+    if (due.length > 0) {
+      // Boxes for cropAndResize are [y1, x1, y2, x2] relative to the frame
+      const boxes = due.map(({ bbox: [x, y, width, height] }) => [
+        Math.max(0, (y - height * padding) / frame.height),
+        Math.max(0, (x - width * padding) / frame.width),
+        Math.min(1, (y + height * (1 + padding)) / frame.height),
+        Math.min(1, (x + width * (1 + padding)) / frame.width),
+      ]);
+      const crops = tf.tidy(() => {
+        const pixels = input instanceof tf.Tensor ? input : tf.browser.fromPixels(input);
+        return tf.unstack(tf.image.cropAndResize(
+          pixels.toFloat().expandDims(0) as tf.Tensor4D,
+          boxes,
+          due.map(() => 0),
+          [CROP_SIZE, CROP_SIZE],
+        )) as tf.Tensor3D[];
+      });
+
+      try {
+        for (let i = 0; i < due.length; i++) {
+          const [best] = await classifier.classify(crops[i]);
+          this.cache.set(due[i].id, {
+            refinement: best && best.score >= minScore ? best : null,
+            time: frame.timestamp,
+          });
+        }
+      } finally {
+        tf.dispose(crops);
+      }
+    }
+
+    return detections.map(detection => {
+      const refinement = this.cache.get(detection.id)?.refinement;
+      return refinement ? { ...detection, refinement } : detection;
+    });
+  };
+}
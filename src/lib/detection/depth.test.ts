@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DepthEstimator, type DepthMap, type DepthModel, fitDepth, sampleDepth } from './depth';
+import type { Detection, FrameInfo, FrameInput } from './types';
+
+const frame = (timestamp = 0): FrameInfo => ({ width: 80, height: 60, timestamp });
+
+// 8x6 map with disparity 0.5 on the left half and 0.25 on the right
+const map: DepthMap = {
+  width: 8,
+  height: 6,
+  values: Float32Array.from({ length: 48 }, (_, i) => (i % 8 < 4 ? 0.5 : 0.25)),
+};
+
+const detection = (id: string, className: string, bbox: Detection['bbox'], distance: number): Detection => ({
+  id, class: className, bbox, score: 0.9, distance, distanceStd: distance * 0.1, direction: 'Center',
+});
+
+const fakeModel = (): DepthModel => ({
+  name: 'fake-depth',
+  inverse: true,
+  estimate: vi.fn(async () => map),
+  dispose: vi.fn(),
+});
+
+const input = {} as FrameInput;
+
+describe('sampleDepth', () => {
+  it('takes the median of the central part of the box', () => {
+    const gradient: DepthMap = { width: 4, height: 4, values: Float32Array.from({ length: 16 }, (_, i) => i) };
+    expect(sampleDepth(gradient, [0, 0, 8, 8], { width: 8, height: 8, timestamp: 0 })).toBe(10);
+  });
+
+  it('returns null for boxes outside the map', () => {
+    expect(sampleDepth(map, [200, 10, 20, 20], frame())).toBeNull();
+  });
+});
+
+describe('fitDepth', () => {
+  it('recovers scale and offset from anchors on a line', () => {
+    const fit = fitDepth([
+      { value: 1, target: 3, weight: 1 },
+      { value: 2, target: 5, weight: 1 },
+      { value: 4, target: 9, weight: 0.5 },
+    ]);
+    expect(fit.scale).toBeCloseTo(2);
+    expect(fit.offset).toBeCloseTo(1);
+  });
+
+  it('fits the scale alone from one anchor or an inverted slope', () => {
+    expect(fitDepth([{ value: 2, target: 1, weight: 1 }])).toEqual({ scale: 0.5, offset: 0 });
+    expect(fitDepth([{ value: 1, target: 4, weight: 1 }, { value: 3, target: 0, weight: 1 }])).toEqual({ scale: 1, offset: 0 });
+  });
+
+  it('gives up without anchors', () => {
+    expect(fitDepth([])).toBeNull();
+  });
+});
+
+describe('DepthEstimator', () => {
+  const person = detection('person-1', 'person', [10, 10, 20, 40], 2);
+  const dog = detection('dog-1', 'dog', [50, 10, 20, 20], 1);
+
+  it('scales the map from reliable classes and gives other classes a depth distance', async () => {
+    const estimator = new DepthEstimator({ enabled: true });
+    estimator.setModel(fakeModel());
+    await estimator.refresh(input, [person, dog], frame());
+
+    const [fused, measured] = estimator.process([person, dog], frame());
+    expect(fused.distanceSource).toBe('fused');
+    expect(fused.distance).toBeCloseTo(2);
+    expect(measured.distanceSource).toBe('depth');
+    expect(measured.distance).toBeCloseTo(4);
+  });
+
+  it('does not calibrate from boxes cut off by the frame edge', async () => {
+    const estimator = new DepthEstimator({ enabled: true });
+    estimator.setModel(fakeModel());
+    const cut = detection('person-1', 'person', [0, 10, 20, 40], 2);
+    await estimator.refresh(input, [cut, dog], frame());
+    expect(estimator.process([cut, dog], frame())).toEqual([cut, dog]);
+  });
+
+  it('re-estimates the map only every refreshInterval', async () => {
+    const model = fakeModel();
+    const estimator = new DepthEstimator({ enabled: true, refreshInterval: 500 });
+    estimator.setModel(model);
+
+    await estimator.refresh(input, [person], frame(0));
+    await estimator.refresh(input, [person], frame(300));
+    expect(model.estimate).toHaveBeenCalledTimes(1);
+    await estimator.refresh(input, [person], frame(500));
+    expect(model.estimate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,232 @@
+import * as tf from '@tensorflow/tfjs';
+import { blendErrors, clampDistance, getDistanceError } from './distance';
+import { DEFAULT_SIZES, hasReliableSize, type SizeDatabase } from './sizes';
+import type { BBox, Detection, FrameInfo, FrameInput } from './types';
+
+export interface DepthModelSpec {
+  name?: string;
+  source: string | File[];          // model.json URL, or model.json plus weight shards picked locally
+  inputSize?: number;               // Square input side in pixels (256 when omitted, as for MiDaS small)
+  mean?: [number, number, number];  // Per-channel normalization of 0..1 pixels (ImageNet when omitted)
+  std?: [number, number, number];
+  inverse?: boolean;                // Output is inverse depth (disparity), as MiDaS produces (true when omitted)
+}
+
+export interface DepthOptions {
+  enabled: boolean;
+  model: DepthModelSpec | null;
+  refreshInterval: number;  // ms between two depth maps; boxes in between are sampled from the last one
+  depthWeight: number;      // Share of the depth estimate in fused distances
+  minAnchorScore: number;   // Detections below this score do not calibrate the depth scale
+}
+
+export const DEFAULT_DEPTH: DepthOptions = {
+  enabled: false,
+  model: null,
+  refreshInterval: 500,
+  depthWeight: 0.5,
+  minAnchorScore: 0.6,
+};
+
+const IMAGENET_MEAN: [number, number, number] = [0.485, 0.456, 0.406];
+const IMAGENET_STD: [number, number, number] = [0.229, 0.224, 0.225];
+
+// Share of a new frame's fit blended into the running scale, to keep distances from jumping
+const FIT_SMOOTHING = 0.3;
+// Relative error of a depth distance: relative depth maps are only affine-correct, and the
+// scale comes from a handful of anchors
+const DEPTH_ERROR = 0.3;
+// Boxes touching the frame edge are cut off, so their known-height distance is too far
+const EDGE_MARGIN = 2;
+
+// Relative depth map at model resolution
+export interface DepthMap {
+  values: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Maps a relative depth value to meters: target = scale * value + offset, where target is
+// inverse distance for disparity models and distance otherwise
+interface DepthFit {
+  scale: number;
+  offset: number;
+}
+
+export interface DepthModel {
+  readonly name: string;
+  estimate(input: FrameInput): Promise<DepthMap>;
+  readonly inverse: boolean;
+  dispose(): void;
+}
+
+export const loadDepthModel = async (spec: DepthModelSpec): Promise<DepthModel> => {
+  await tf.ready();
+  const handler = typeof spec.source === 'string' ? spec.source : tf.io.browserFiles(spec.source);
+  const model = await tf.loadGraphModel(handler);
+  const size = spec.inputSize ?? 256;
+  const mean = spec.mean ?? IMAGENET_MEAN;
+  const std = spec.std ?? IMAGENET_STD;
+  const name = spec.name ?? 'depth-model';
+  console.log(`Depth model ${name} loaded`);
+
+  return {
+    name,
+    inverse: spec.inverse ?? true,
+    estimate: async (input: FrameInput): Promise<DepthMap> => {
+      const output = tf.tidy(() => {
+        const pixels = input instanceof tf.Tensor ? input : tf.browser.fromPixels(input);
+        const batch = tf.image.resizeBilinear(pixels.toFloat(), [size, size])
+          .div(255).sub(mean).div(std)
+          .expandDims(0);
+        // Outputs are [1, H, W] or [1, H, W, 1]
+        const depth = model.predict(batch) as tf.Tensor;
+        return depth.reshape(depth.shape.filter(dim => dim !== 1)) as tf.Tensor2D;
+      });
+      const [height, width] = output.shape;
+      const values = await output.data() as Float32Array;
+      output.dispose();
+      return { values, width, height };
+    },
+    dispose: () => model.dispose(),
+  };
+};
+
+// Median depth value of the central part of a box, which is more likely to be on the object than its corners
+export const sampleDepth = (map: DepthMap, [x, y, width, height]: BBox, frame: FrameInfo): number | null => {
+  const scaleX = map.width / frame.width;
+  const scaleY = map.height / frame.height;
+  const left = Math.max(0, Math.floor((x + width * 0.25) * scaleX));
+  const right = Math.min(map.width - 1, Math.ceil((x + width * 0.75) * scaleX));
+  const top = Math.max(0, Math.floor((y + height * 0.25) * scaleY));
+  const bottom = Math.min(map.height - 1, Math.ceil((y + height * 0.75) * scaleY));
+  if (right < left || bottom < top) return null;
+
+  const samples: number[] = [];
+  for (let row = top; row <= bottom; row++) {
+    for (let col = left; col <= right; col++) {
+      samples.push(map.values[row * map.width + col]);
+    }
+  }
+  samples.sort((a, b) => a - b);
+  return samples[Math.floor(samples.length / 2)];
+};
+
+// Weighted least squares of target = scale * value + offset; a single anchor fits the scale alone
+export const fitDepth = (anchors: { value: number; target: number; weight: number }[]): DepthFit | null => {
+  if (anchors.length === 0) return null;
+  const total = anchors.reduce((sum, { weight }) => sum + weight, 0);
+  const meanValue = anchors.reduce((sum, { value, weight }) => sum + value * weight, 0) / total;
+  const meanTarget = anchors.reduce((sum, { target, weight }) => sum + target * weight, 0) / total;
+  const variance = anchors.reduce((sum, { value, weight }) => sum + weight * (value - meanValue) ** 2, 0);
+
+  if (anchors.length >= 2 && variance > 1e-6 * total * meanValue ** 2) {
+    const covariance = anchors.reduce((sum, { value, target, weight }) => sum + weight * (value - meanValue) * (target - meanTarget), 0);
+    const scale = covariance / variance;
+    if (scale > 0) return { scale, offset: meanTarget - scale * meanValue };
+  }
+  return meanValue > 0 ? { scale: meanTarget / meanValue, offset: 0 } : null;
+};
+
+const isTruncated = ([x, y, width, height]: BBox, frame: FrameInfo): boolean =>
+  x <= EDGE_MARGIN || y <= EDGE_MARGIN || x + width >= frame.width - EDGE_MARGIN || y + height >= frame.height - EDGE_MARGIN;
+
+// Turns a relative depth map into meters. Detections of reliably sized classes calibrate the depth
+// scale each frame; every detection then gets a depth distance, fused with its known-height or
+// ground-plane distance where it has one. The map needs pixels, so the `refresh` refiner estimates
+// it, and the `process` postprocessor fuses with the latest map ahead of the smoother.
+export class DepthEstimator {
+  private options: DepthOptions;
+  private model: DepthModel | null = null;
+  private map: DepthMap | null = null;
+  private mapTime = 0;
+  private fit: DepthFit | null = null;
+  private sizes: SizeDatabase = DEFAULT_SIZES;
+
+  constructor(options: Partial<DepthOptions> = {}) {
+    this.options = { ...DEFAULT_DEPTH, ...options };
+  }
+
+  getOptions(): Readonly<DepthOptions> {
+    return this.options;
+  }
+
+  setOptions(options: Partial<DepthOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  setSizes(sizes: SizeDatabase): void {
+    this.sizes = sizes;
+  }
+
+  // Takes ownership: the previous model is disposed
+  setModel(model: DepthModel | null): void {
+    if (model === this.model) return;
+    this.model?.dispose();
+    this.model = model;
+    this.reset();
+  }
+
+  reset(): void {
+    this.map = null;
+    this.mapTime = 0;
+    this.fit = null;
+  }
+
+  // Refiner that re-estimates the depth map every refreshInterval; detections pass through
+  refresh = async (input: FrameInput, detections: Detection[], frame: FrameInfo): Promise<Detection[]> => {
+    const { enabled, refreshInterval } = this.options;
+    const model = this.model;
+    if (!enabled || !model || detections.length === 0) return detections;
+
+    if (!this.map || frame.timestamp - this.mapTime >= refreshInterval) {
+      this.map = await model.estimate(input);
+      this.mapTime = frame.timestamp;
+    }
+    return detections;
+  };
+
+  process = (detections: Detection[], frame: FrameInfo): Detection[] => {
+    const { enabled, depthWeight, minAnchorScore } = this.options;
+    const model = this.model;
+    const map = this.map;
+    if (!enabled || !model || !map || detections.length === 0) return detections;
+
+    const values = detections.map(detection => sampleDepth(map, detection.bbox, frame));
+    const toTarget = (distance: number) => (model.inverse ? 1 / distance : distance);
+    const anchors = detections.flatMap((detection, i) => {
+      const value = values[i];
+      if (value === null || !hasReliableSize(detection.class, this.sizes) || detection.score < minAnchorScore || isTruncated(detection.bbox, frame)) return [];
+      return [{ value, target: toTarget(detection.distance), weight: detection.score }];
+    });
+
+    const fit = fitDepth(anchors);
+    if (fit) {
+      this.fit = this.fit
+        ? {
+          scale: this.fit.scale + (fit.scale - this.fit.scale) * FIT_SMOOTHING,
+          offset: this.fit.offset + (fit.offset - this.fit.offset) * FIT_SMOOTHING,
+        }
+        : fit;
+    }
+    const current = this.fit;
+    if (!current) return detections;
+
+    return detections.map((detection, i) => {
+      const value = values[i];
+      if (value === null) return detection;
+      const target = current.scale * value + current.offset;
+      if (target <= 0) return detection;
+      const depthDistance = clampDistance(model.inverse ? 1 / target : target);
+
+      // Only reliable-size and ground-plane distances are metric enough to fuse with
+      if (!hasReliableSize(detection.class, this.sizes) && detection.distanceSource !== 'ground') {
+        return { ...detection, distance: depthDistance, distanceStd: depthDistance * DEPTH_ERROR, distanceSource: 'depth' };
+      }
+      // Geometric blend, since both estimates err multiplicatively
+      const fused = clampDistance(Math.exp(depthWeight * Math.log(depthDistance) + (1 - depthWeight) * Math.log(detection.distance)));
+      const error = blendErrors(DEPTH_ERROR, getDistanceError(detection), depthWeight);
+      return { ...detection, distance: fused, distanceStd: fused * error, distanceSource: 'fused' };
+    });
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FOCAL_LENGTH, estimateDistance, estimateDistanceError } from './distance';
+import { DEFAULT_SIZES } from './sizes';
+
+const frame = { width: 640, height: 480 };
+
+describe('estimateDistance', () => {
+  it('uses the class height from the size database', () => {
+    const distance = estimateDistance([100, 100, 50, 200], 'person', { frame });
+    expect(distance).toBeCloseTo(DEFAULT_SIZES.person.height * DEFAULT_FOCAL_LENGTH / 200);
+  });
+
+  it('follows edited sizes', () => {
+    const sizes = { ...DEFAULT_SIZES, person: { ...DEFAULT_SIZES.person, height: 1.2 } };
+    expect(estimateDistance([100, 100, 50, 200], 'person', { focalLength: 1000, sizes, frame })).toBeCloseTo(6);
+  });
+
+  it('falls back to the width for boxes cut off at the top or bottom', () => {
+    const distance = estimateDistance([100, 0, 90, 300], 'person', { focalLength: 1000, frame });
+    expect(distance).toBeCloseTo(DEFAULT_SIZES.person.width * 1000 / 90);
+  });
+
+  it('clamps to the supported range', () => {
+    expect(estimateDistance([0, 0, 10, 1], 'bus')).toBe(50);
+    expect(estimateDistance([0, 0, 400, 4000], 'cup')).toBe(0.5);
+  });
+});
+
+describe('estimateDistanceError', () => {
+  it('is larger for classes whose size varies more and for lower scores', () => {
+    const bbox: [number, number, number, number] = [100, 100, 50, 200];
+    expect(estimateDistanceError(bbox, 'dog', 0.9)).toBeGreaterThan(estimateDistanceError(bbox, 'person', 0.9));
+    expect(estimateDistanceError(bbox, 'person', 0.5)).toBeGreaterThan(estimateDistanceError(bbox, 'person', 0.9));
+  });
+});
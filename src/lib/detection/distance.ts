@@ -0,0 +1,85 @@
+import { getObjectSize, getSizeSpread, type ObjectSize, type SizeDatabase } from './sizes';
+import type { BBox, Detection, Direction, FrameInfo } from './types';
+
+export const FOCAL_LENGTH = 1000; // pixels
+
+// Uncalibrated cameras apply a typical mobile camera correction factor (usually 1.2-1.5x);
+// a calibrated focal length already includes it
+const MOBILE_CORRECTION = 1.3;
+export const DEFAULT_FOCAL_LENGTH = FOCAL_LENGTH * MOBILE_CORRECTION;
+
+export const MIN_DISTANCE = 0.5;  // meters
+export const MAX_DISTANCE = 50;   // meters
+
+export const clampDistance = (distance: number): number => Math.max(MIN_DISTANCE, Math.min(MAX_DISTANCE, distance));
+
+export interface DistanceOptions {
+  focalLength?: number;  // pixels of the frame the box is in
+  sizes?: SizeDatabase;
+  frame?: Pick<FrameInfo, 'width' | 'height'>;  // Lets boxes cut off at the top or bottom fall back to their width
+}
+
+// Boxes this close to the frame edge are treated as cut off
+const EDGE_MARGIN = 2;
+
+// Relative error sources of the known-size estimate
+const LOCALIZATION_ERROR = 0.5;  // Box edge error at score 0, shrinking linearly to none at score 1
+const QUANTIZATION_PX = 2;       // Pixels of box edge jitter, which matter for small boxes
+const TRUNCATION_ERROR = 0.5;    // Boxes cut off on every side only show part of the object
+const WIDTH_ERROR = 0.2;         // Extra error of widths, which depend on the viewpoint
+
+// The box dimension to measure and the real size it corresponds to
+const measureBox = ([x, y, width, height]: BBox, size: ObjectSize, frame?: DistanceOptions['frame']) => {
+  const cutVertically = frame !== undefined && (y <= EDGE_MARGIN || y + height >= frame.height - EDGE_MARGIN);
+  const cutHorizontally = frame !== undefined && (x <= EDGE_MARGIN || x + width >= frame.width - EDGE_MARGIN);
+  // A box cut off vertically but whole horizontally still shows the object's full width
+  if (cutVertically && !cutHorizontally) {
+    return { pixels: width, meters: size.width, usesWidth: true, truncated: false };
+  }
+  return { pixels: height, meters: size.height, usesWidth: false, truncated: cutVertically };
+};
+
+// Distance estimation using focal length method
+export const estimateDistance = (bbox: BBox, className: string, { focalLength = DEFAULT_FOCAL_LENGTH, sizes, frame }: DistanceOptions = {}): number => {
+  const { pixels, meters } = measureBox(bbox, getObjectSize(className, sizes), frame);
+
+  // Distance = (Known Height × Focal Length) / Perceived Height
+  return clampDistance((meters * focalLength) / pixels);
+};
+
+// Relative standard deviation of estimateDistance, from the class's size spread, the detector
+// score, the box size and whether the box is cut off
+export const estimateDistanceError = (bbox: BBox, className: string, score: number, { sizes, frame }: DistanceOptions = {}): number => {
+  const size = getObjectSize(className, sizes);
+  const { pixels, usesWidth, truncated } = measureBox(bbox, size, frame);
+  return Math.hypot(
+    getSizeSpread(size),
+    usesWidth ? WIDTH_ERROR : 0,
+    (1 - score) * LOCALIZATION_ERROR,
+    QUANTIZATION_PX / pixels,
+    truncated ? TRUNCATION_ERROR : 0,
+  );
+};
+
+// Relative error of a weighted geometric blend of two independent estimates
+export const blendErrors = (errorA: number, errorB: number, weightA: number): number =>
+  Math.hypot(weightA * errorA, (1 - weightA) * errorB);
+
+// Relative error of a detection's distance; 0 for detections recorded without one
+export const getDistanceError = (detection: Pick<Detection, 'distance' | 'distanceStd'>): number =>
+  (detection.distanceStd ?? 0) / detection.distance;
+
+// Get direction based on object position
+export const getDirection = (x: number, width: number, videoWidth: number): Direction => {
+  const centerX = x + width / 2;
+  if (centerX < videoWidth / 3) return 'Left';
+  if (centerX > (2 * videoWidth) / 3) return 'Right';
+  return 'Center';
+};
+
+// Get color based on distance
+export const getDistanceColor = (distance: number): string => {
+  if (distance < 3) return '#FF0000';      // Red: < 3m
+  if (distance < 5) return '#FFFF00';      // Yellow: 3-5m
+  return '#00FF00';                        // Green: > 5m
+};
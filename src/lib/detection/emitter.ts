@@ -0,0 +1,28 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal typed event emitter; `on` returns an unsubscribe function
+export class TypedEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    if (!this.listeners[event]) {
+      this.listeners[event] = new Set();
+    }
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Listener for "${String(event)}" failed:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionEngine } from './engine';
+import type { DetectOptions, DetectionModel, FrameInput, Prediction } from './types';
+
+// Returns fixed predictions above the requested floor and remembers the options it got
+const fakeModel = (predictions: Prediction[]) => {
+  const calls: DetectOptions[] = [];
+  const model: DetectionModel = {
+    name: 'fake',
+    detect: async (_input, options = {}) => {
+      calls.push(options);
+      return predictions.filter(prediction => prediction.score >= (options.minScore ?? 0));
+    },
+  };
+  return { model, calls };
+};
+
+const input = { width: 640, height: 480 } as unknown as FrameInput;
+
+const predictions: Prediction[] = [
+  { class: 'person', bbox: [100, 100, 50, 150], score: 0.8 },
+  { class: 'cup', bbox: [300, 300, 20, 30], score: 0.25 },
+  { class: 'dog', bbox: [400, 200, 80, 60], score: 0.2 },
+];
+
+describe('DetectionEngine score thresholds', () => {
+  it('asks the detector for boxes down to the lowest per-class threshold', async () => {
+    const { model, calls } = fakeModel(predictions);
+    const engine = new DetectionEngine({
+      model,
+      minScore: 0.5,
+      detectorMinScore: 0.5,
+      classFilter: { allowlist: [], denylist: [], thresholds: { cup: 0.2 } },
+    });
+
+    const detections = await engine.processFrame(input, 0);
+    expect(calls[0].minScore).toBe(0.2);
+    expect(detections.map(detection => detection.class)).toEqual(['person', 'cup']);
+  });
+
+  it('asks for boxes down to a global minimum below the detector minimum', async () => {
+    const { model, calls } = fakeModel(predictions);
+    const engine = new DetectionEngine({ model, minScore: 0.1, detectorMinScore: 0.5 });
+    await engine.processFrame(input, 0);
+    expect(calls[0].minScore).toBe(0.1);
+  });
+
+  it('reports raw boxes down to rawMinScore without passing them through the pipeline', async () => {
+    const { model } = fakeModel(predictions);
+    const engine = new DetectionEngine({ model, minScore: 0.5, detectorMinScore: 0.5, rawMinScore: 0.1 });
+    const results: Prediction[][] = [];
+    engine.on('result', result => results.push(result.predictions));
+
+    const detections = await engine.processFrame(input, 0);
+    expect(detections).toHaveLength(1);
+    expect(results[0]).toHaveLength(3);
+  });
+});
@@ -0,0 +1,298 @@
+import { getFocalLength, type CameraCalibration } from './calibration';
+import { applyClassFilter, getLowestThreshold, type ClassFilterConfig } from './class-filter';
+import { TypedEmitter } from './emitter';
+import { estimateDistance, estimateDistanceError, getDirection } from './distance';
+import { DEFAULT_MOTION, MotionDetector, type MotionOptions, type MotionResult } from './motion';
+import { nonMaxSuppression } from './nms';
+import { filterByRegions, type RegionConfig } from './regions';
+import { DEFAULT_SIZES, type SizeDatabase } from './sizes';
+import { AdaptiveScheduler, DEFAULT_SCHEDULER, type SchedulerOptions } from './scheduler';
+import { DEFAULT_TILING, IdleGate, detectTiled, type TilingOptions } from './tiling';
+import type { FrameSource } from './sources';
+import type { Detection, DetectionModel, FrameEvent, FrameInfo, FrameInput, FrameResult, Postprocessor, Prediction, Refiner } from './types';
+
+export type EngineState = 'idle' | 'running' | 'paused';
+
+export interface DetectionEngineEvents {
+  frame: FrameEvent;     // Before inference, while the input still shows the frame
+  result: FrameResult;   // After postprocessing
+  detections: Detection[];
+  fps: number;
+  error: Error;
+  state: EngineState;
+  motion: MotionResult;
+}
+
+export interface DetectionEngineOptions {
+  model?: DetectionModel | null;
+  minScore?: number;   // Predictions at or below this score are dropped
+  classFilter?: ClassFilterConfig | null;  // Allow/deny lists and per-class score overrides
+  regions?: RegionConfig | null;           // Include/exclude polygons
+  calibration?: CameraCalibration | null;  // Measured focal length of the current camera
+  sizes?: SizeDatabase;                    // Real-world class sizes for distance estimation
+  scheduler?: SchedulerOptions;  // Adaptive cadence of the live loop
+  motion?: MotionOptions;        // Skip inference while the scene is static
+  maxBoxes?: number;          // Passed to the detector
+  detectorMinScore?: number;  // Passed to the detector; lowered to minScore or a lower per-class threshold
+  rawMinScore?: number | null;  // Lower detector floor for the raw predictions in results (e.g. for redaction); the pipeline still starts at detectorMinScore
+  nmsIoUThreshold?: number | null;  // Class-aware NMS after the detector; null disables it
+  tiling?: TilingOptions;     // Sliced inference for small and distant objects
+  postprocessors?: Postprocessor[];
+  refiners?: Refiner[];
+}
+
+// ms between two motion samples
+const MOTION_SAMPLE_INTERVAL = 100;
+
+const DEFAULT_OPTIONS: Required<DetectionEngineOptions> = {
+  model: null,
+  minScore: 0.5,
+  classFilter: null,
+  regions: null,
+  calibration: null,
+  sizes: DEFAULT_SIZES,
+  scheduler: DEFAULT_SCHEDULER,
+  motion: DEFAULT_MOTION,
+  maxBoxes: 20,
+  detectorMinScore: 0.5,
+  rawMinScore: null,
+  nmsIoUThreshold: 0.5,
+  tiling: DEFAULT_TILING,
+  postprocessors: [],
+  refiners: [],
+};
+
+// Pixel size of any supported frame input
+export const getFrameSize = (input: FrameInput): { width: number; height: number } => {
+  if ('videoWidth' in input) return { width: input.videoWidth, height: input.videoHeight };
+  if ('naturalWidth' in input) return { width: input.naturalWidth, height: input.naturalHeight };
+  if ('shape' in input) return { width: input.shape[1], height: input.shape[0] };
+  return { width: input.width, height: input.height };
+};
+
+const toDetection = (prediction: Prediction, frame: FrameInfo, calibration: CameraCalibration | null, sizes: SizeDatabase): Detection => {
+  const [x, , width] = prediction.bbox;
+  const focalLength = calibration ? getFocalLength(calibration, frame) : undefined;
+  const distance = estimateDistance(prediction.bbox, prediction.class, { focalLength, sizes, frame });
+  return {
+    id: `${prediction.class}-${Date.now()}-${Math.random()}`,
+    bbox: prediction.bbox,
+    class: prediction.class,
+    score: prediction.score,
+    distance,
+    distanceStd: distance * estimateDistanceError(prediction.bbox, prediction.class, prediction.score, { sizes, frame }),
+    direction: getDirection(x, width, frame.width),
+  };
+};
+
+// Framework-agnostic detection pipeline: model -> score/class filter -> NMS -> regions -> distance/direction -> postprocessors -> refiners
+export class DetectionEngine extends TypedEmitter<DetectionEngineEvents> {
+  private options: Required<DetectionEngineOptions>;
+  private state: EngineState = 'idle';
+  private source: FrameSource | null = null;
+  private animationId: number | null = null;
+  private scheduler: AdaptiveScheduler;
+  private inFlight = false;
+  private frameCount = 0;
+  private lastFpsTime = 0;
+  private idleGate = new IdleGate();
+  private motionDetector = new MotionDetector();
+  private lastDetectionTime = 0;
+  private sceneStatic = false;
+  private lastMotionSample = 0;
+
+  constructor(options: DetectionEngineOptions = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.scheduler = new AdaptiveScheduler(this.options.scheduler);
+  }
+
+  getState(): EngineState {
+    return this.state;
+  }
+
+  getSource(): FrameSource | null {
+    return this.source;
+  }
+
+  getModel(): DetectionModel | null {
+    return this.options.model;
+  }
+
+  setModel(model: DetectionModel | null): void {
+    this.options.model = model;
+  }
+
+  getOptions(): Readonly<Required<DetectionEngineOptions>> {
+    return this.options;
+  }
+
+  setOptions(options: Partial<DetectionEngineOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.scheduler.setOptions(this.options.scheduler);
+  }
+
+  // Smoothed inference latency of the live loop in ms
+  getLatency(): number {
+    return this.scheduler.getLatency();
+  }
+
+  // Run the pipeline on a single frame and emit the result
+  async processFrame(input: FrameInput, timestamp = performance.now()): Promise<Detection[]> {
+    const { model, minScore, classFilter, regions, calibration, sizes, maxBoxes, detectorMinScore, rawMinScore, nmsIoUThreshold, tiling, postprocessors, refiners } = this.options;
+    if (!model) {
+      throw new Error('No detection model set');
+    }
+
+    const frame: FrameInfo = { ...getFrameSize(input), timestamp };
+    this.emit('frame', { input, frame });
+    const scoreFloor = Math.min(detectorMinScore, classFilter ? getLowestThreshold(classFilter, minScore) : minScore);
+    const detectOptions = { maxBoxes, minScore: Math.min(scoreFloor, rawMinScore ?? scoreFloor) };
+    const tiled = tiling.mode === 'always'
+      || (tiling.mode === 'idle' && this.idleGate.take(timestamp, tiling.idleInterval, this.options.motion.enabled ? this.sceneStatic : undefined));
+    const raw = tiled
+      ? await detectTiled(model, input, frame, tiling, detectOptions)
+      : await model.detect(input, detectOptions);
+    let predictions = raw.filter(prediction => prediction.score >= scoreFloor);
+    predictions = classFilter
+      ? applyClassFilter(predictions, classFilter, minScore)
+      : predictions.filter(prediction => prediction.score > minScore);
+    if (nmsIoUThreshold !== null) {
+      predictions = nonMaxSuppression(predictions, nmsIoUThreshold);
+    }
+    if (regions) {
+      predictions = filterByRegions(predictions, regions, frame);
+    }
+
+    let detections = predictions.map(prediction => toDetection(prediction, frame, calibration, sizes));
+
+    for (const postprocess of postprocessors) {
+      detections = postprocess(detections, frame);
+    }
+    for (const refine of refiners) {
+      detections = await refine(input, detections, frame);
+    }
+
+    this.idleGate.observe(detections);
+    this.emit('result', { input, frame, detections, predictions: raw });
+    this.emit('detections', detections);
+    return detections;
+  }
+
+  start(source: FrameSource): void {
+    this.source = source;
+    this.scheduler.reset();
+    this.motionDetector.reset();
+    this.idleGate.reset();
+    this.lastDetectionTime = 0;
+    this.sceneStatic = false;
+    this.lastMotionSample = 0;
+    this.frameCount = 0;
+    this.lastFpsTime = performance.now();
+    this.setState('running');
+    this.scheduleNext();
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    this.cancelLoop();
+    this.setState('paused');
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.lastFpsTime = performance.now();
+    this.frameCount = 0;
+    this.setState('running');
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.state === 'idle') return;
+    this.cancelLoop();
+    this.emit('detections', []);
+    this.source = null;
+    this.setState('idle');
+  }
+
+  private setState(state: EngineState): void {
+    this.state = state;
+    this.emit('state', state);
+  }
+
+  private scheduleNext(): void {
+    // A tick still awaiting inference must not start a second loop after stop/start
+    if (this.animationId !== null) return;
+    this.animationId = requestAnimationFrame(this.tick);
+  }
+
+  private cancelLoop(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  // Scheduler cadence; with motion gating, static scenes are only re-checked every maxSkip ms
+  // and motion after a still period triggers a detection at once
+  private shouldDetect(frame: FrameInput, currentTime: number): boolean {
+    const { motion } = this.options;
+    const due = this.scheduler.isDue(currentTime);
+    if (!motion.enabled) return due;
+
+    const staleEnough = currentTime - this.lastDetectionTime >= motion.maxSkip;
+    // Sample at a fixed rate so slow movement still adds up between samples
+    if (currentTime - this.lastMotionSample < MOTION_SAMPLE_INTERVAL) {
+      return this.sceneStatic ? staleEnough : due;
+    }
+
+    const result = this.motionDetector.update(frame, this.source.width, this.source.height, motion);
+    if (!result) return due;
+    this.lastMotionSample = currentTime;
+    this.emit('motion', result);
+
+    const wasStatic = this.sceneStatic;
+    this.sceneStatic = !result.moving;
+    if (result.moving) {
+      return wasStatic || due;
+    }
+    return staleEnough;
+  }
+
+  private tick = async (currentTime: number): Promise<void> => {
+    this.animationId = null;
+    if (this.state !== 'running' || !this.source) return;
+
+    if (this.source.ended) {
+      this.stop();
+      return;
+    }
+
+    const frame = this.source.getFrame();
+    // The in-flight guard keeps detect calls from ever overlapping
+    if (frame && !this.inFlight && this.options.model && this.shouldDetect(frame, currentTime)) {
+      this.inFlight = true;
+      try {
+        await this.processFrame(frame, currentTime);
+        this.scheduler.record(currentTime, performance.now());
+        this.lastDetectionTime = currentTime;
+        this.frameCount++;
+      } catch (error) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      } finally {
+        this.inFlight = false;
+      }
+    }
+
+    // Report completed detections per second
+    if (currentTime - this.lastFpsTime >= 1000) {
+      this.emit('fps', this.frameCount);
+      this.frameCount = 0;
+      this.lastFpsTime = currentTime;
+    }
+
+    if (this.state === 'running') {
+      this.scheduleNext();
+    }
+  };
+}
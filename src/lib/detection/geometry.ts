@@ -0,0 +1,25 @@
+import type { BBox } from './types';
+
+export const area = ([, , width, height]: BBox): number => Math.max(0, width) * Math.max(0, height);
+
+// Intersection over union of two [x, y, width, height] boxes
+export const iou = (a: BBox, b: BBox): number => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Intersection over the smaller box: 1 when one box contains the other, used to merge tile fragments
+export const intersectionOverSmaller = (a: BBox, b: BBox): number => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const smaller = Math.min(area(a), area(b));
+  return smaller > 0 ? intersection / smaller : 0;
+};
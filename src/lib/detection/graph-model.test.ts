@@ -0,0 +1,66 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { type DecodeContext, decodeYolo } from './graph-model';
+
+const context: DecodeContext = {
+  labels: ['person', 'car'],
+  inputWidth: 320,
+  inputHeight: 320,
+  frameWidth: 640,
+  frameHeight: 480,
+  maxBoxes: 10,
+  minScore: 0.25,
+};
+
+// Rows of [cx, cy, w, h, ...scores] in input pixels
+const PERSON_ROW = [100, 100, 40, 80];
+const CAR_ROW = [200, 240, 60, 40];
+
+describe('decodeYolo', () => {
+  beforeAll(async () => {
+    await tf.setBackend('cpu');
+  });
+
+  it('decodes YOLOv8 outputs and scales boxes to the frame', async () => {
+    // [1, 4 + classes, boxes]
+    const rows = [[...PERSON_ROW, 0.9, 0.05], [...CAR_ROW, 0.1, 0.8], [...CAR_ROW, 0.05, 0.1]];
+    const output = tf.tensor3d([rows[0].map((_, column) => rows.map(row => row[column]))]);
+
+    const predictions = await decodeYolo([output], context);
+    output.dispose();
+
+    expect(predictions).toHaveLength(2);
+    expect(predictions[0].class).toBe('person');
+    expect(predictions[0].score).toBeCloseTo(0.9);
+    const [x, y, width, height] = predictions[0].bbox;
+    expect(x).toBeCloseTo(80 * 2);
+    expect(y).toBeCloseTo(60 * 1.5);
+    expect(width).toBeCloseTo(40 * 2);
+    expect(height).toBeCloseTo(80 * 1.5);
+    expect(predictions[1]).toMatchObject({ class: 'car' });
+    expect(predictions[1].score).toBeCloseTo(0.8);
+  });
+
+  it('weighs YOLOv5 class scores by objectness', async () => {
+    // [1, boxes, 5 + classes]
+    const output = tf.tensor3d([[[...PERSON_ROW, 0.5, 0.9, 0.1], [...CAR_ROW, 0.2, 0.1, 0.9]]]);
+
+    const predictions = await decodeYolo([output], context);
+    output.dispose();
+
+    expect(predictions).toHaveLength(1);
+    expect(predictions[0].class).toBe('person');
+    expect(predictions[0].score).toBeCloseTo(0.45);
+  });
+
+  it('keeps the best of overlapping boxes', async () => {
+    const output = tf.tensor3d([[[...PERSON_ROW, 1, 0, 0, 0.7], [102, 100, 40, 80, 1, 0, 0, 0.6]]]);
+
+    const predictions = await decodeYolo([output], { ...context, labels: ['person', 'car', 'dog'] });
+    output.dispose();
+
+    expect(predictions).toHaveLength(1);
+    expect(predictions[0].class).toBe('dog');
+    expect(predictions[0].score).toBeCloseTo(0.7);
+  });
+});
@@ -0,0 +1,126 @@
+import * as tf from '@tensorflow/tfjs';
+import { getFrameSize } from './engine';
+import { COCO_CLASSES } from './labels';
+import type { DetectOptions, DetectionModel, FrameInput, Prediction } from './types';
+
+export interface DecodeContext {
+  labels: string[];
+  inputWidth: number;
+  inputHeight: number;
+  frameWidth: number;
+  frameHeight: number;
+  maxBoxes: number;
+  minScore: number;
+}
+
+// Turns raw graph model outputs into frame-space predictions
+export type OutputDecoder = (outputs: tf.Tensor[], context: DecodeContext) => Promise<Prediction[]>;
+
+export interface GraphModelSpec {
+  type: 'graph';
+  name?: string;
+  source: string | File[];       // model.json URL, or model.json plus weight shards picked locally
+  labels?: string[];             // Defaults to the COCO label map
+  inputSize?: number | [number, number]; // [width, height]; read from the model when omitted
+  decoder?: 'yolo' | OutputDecoder;
+}
+
+const DEFAULT_MAX_BOXES = 20;
+const DEFAULT_MIN_SCORE = 0.25;
+const YOLO_IOU_THRESHOLD = 0.45;
+
+// Decoder for YOLOv5 ([1, boxes, 5 + classes]) and YOLOv8 ([1, 4 + classes, boxes]) exports
+// with center-format boxes in input pixels
+export const decodeYolo: OutputDecoder = async (outputs, context) => {
+  const { labels, inputWidth, inputHeight, frameWidth, frameHeight, maxBoxes, minScore } = context;
+  const numClasses = labels.length;
+
+  const [boxes, scores, classes] = tf.tidy(() => {
+    let rows = outputs[0].squeeze([0]) as tf.Tensor2D;
+    if (rows.shape[0] === 4 + numClasses) {
+      rows = rows.transpose();
+    }
+    const hasObjectness = rows.shape[1] === 5 + numClasses;
+
+    const [cx, cy, w, h] = tf.split(rows.slice([0, 0], [-1, 4]), 4, 1);
+    let classScores = rows.slice([0, hasObjectness ? 5 : 4], [-1, numClasses]);
+    if (hasObjectness) {
+      classScores = classScores.mul(rows.slice([0, 4], [-1, 1]));
+    }
+
+    // NMS expects [y1, x1, y2, x2]
+    const halfW = w.div(2);
+    const halfH = h.div(2);
+    const corners = tf.concat([cy.sub(halfH), cx.sub(halfW), cy.add(halfH), cx.add(halfW)], 1) as tf.Tensor2D;
+    return [corners, classScores.max(1) as tf.Tensor1D, classScores.argMax(1) as tf.Tensor1D];
+  });
+
+  const keep = await tf.image.nonMaxSuppressionAsync(boxes, scores, maxBoxes, YOLO_IOU_THRESHOLD, minScore);
+  const [boxData, scoreData, classData, keepData] = await Promise.all([
+    boxes.data(), scores.data(), classes.data(), keep.data(),
+  ]);
+  tf.dispose([boxes, scores, classes, keep]);
+
+  const scaleX = frameWidth / inputWidth;
+  const scaleY = frameHeight / inputHeight;
+  return Array.from(keepData).map(index => {
+    const [y1, x1, y2, x2] = boxData.slice(index * 4, index * 4 + 4);
+    return {
+      bbox: [x1 * scaleX, y1 * scaleY, (x2 - x1) * scaleX, (y2 - y1) * scaleY],
+      class: labels[classData[index]] ?? `class ${classData[index]}`,
+      score: scoreData[index],
+    };
+  });
+};
+
+const resolveInputSize = (model: tf.GraphModel, inputSize?: number | [number, number]): [number, number] => {
+  if (typeof inputSize === 'number') return [inputSize, inputSize];
+  if (inputSize) return inputSize;
+
+  // Graph inputs are NHWC; dynamic dimensions show up as -1
+  const [, height, width] = model.inputs[0]?.shape ?? [];
+  return [width > 0 ? width : 640, height > 0 ? height : 640];
+};
+
+// Adapt a TF.js graph model to the engine's DetectionModel interface
+export const createGraphModel = (model: tf.GraphModel, spec: GraphModelSpec): DetectionModel => {
+  const labels = spec.labels ?? COCO_CLASSES;
+  const decoder = typeof spec.decoder === 'function' ? spec.decoder : decodeYolo;
+  const [inputWidth, inputHeight] = resolveInputSize(model, spec.inputSize);
+
+  return {
+    name: spec.name ?? 'custom-graph',
+    backend: tf.getBackend(),
+    detect: async (input: FrameInput, options: DetectOptions = {}): Promise<Prediction[]> => {
+      const { width, height } = getFrameSize(input);
+      const batch = tf.tidy(() => {
+        const pixels = input instanceof tf.Tensor ? input : tf.browser.fromPixels(input);
+        return tf.image.resizeBilinear(pixels, [inputHeight, inputWidth]).div(255).expandDims(0);
+      });
+
+      const result = await model.executeAsync(batch);
+      const outputs = Array.isArray(result) ? result : [result];
+      try {
+        return await decoder(outputs, {
+          labels,
+          inputWidth,
+          inputHeight,
+          frameWidth: width,
+          frameHeight: height,
+          maxBoxes: options.maxBoxes ?? DEFAULT_MAX_BOXES,
+          minScore: options.minScore ?? DEFAULT_MIN_SCORE,
+        });
+      } finally {
+        tf.dispose([batch, ...outputs]);
+      }
+    },
+    dispose: () => model.dispose(),
+  };
+};
+
+export const loadGraphModel = async (spec: GraphModelSpec): Promise<DetectionModel> => {
+  const handler = typeof spec.source === 'string' ? spec.source : tf.io.browserFiles(spec.source);
+  const model = await tf.loadGraphModel(handler);
+  console.log(`Graph model ${spec.name ?? ''} loaded`);
+  return createGraphModel(model, spec);
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { estimateGroundDistance, GroundPlaneEstimator } from './ground';
+import type { Detection, FrameInfo } from './types';
+
+const frame: FrameInfo = { width: 640, height: 480, timestamp: 0 };
+
+describe('estimateGroundDistance', () => {
+  it('projects the frame center along the pitch', () => {
+    // 45 degrees down from 1.5m: the axis meets the floor 1.5 * sqrt(2) m away
+    const ground = estimateGroundDistance(240, frame, 500, 1.5, 45);
+    expect(ground?.distance).toBeCloseTo(1.5 * Math.SQRT2);
+  });
+
+  it('grows more uncertain towards the horizon', () => {
+    const near = estimateGroundDistance(400, frame, 500, 1.5, 10)!;
+    const far = estimateGroundDistance(260, frame, 500, 1.5, 10)!;
+    expect(far.distance).toBeGreaterThan(near.distance);
+    expect(far.error).toBeGreaterThan(near.error);
+  });
+
+  it('returns null at or above the horizon', () => {
+    expect(estimateGroundDistance(100, frame, 500, 1.5, 5)).toBeNull();
+  });
+});
+
+describe('GroundPlaneEstimator', () => {
+  const detection = (cls: string, distance: number): Detection => ({
+    id: `${cls}-1`, class: cls, bbox: [300, 200, 40, 200], score: 0.9, distance, distanceStd: distance * 0.1, direction: 'Center',
+  });
+  const estimator = new GroundPlaneEstimator({ enabled: true, pitchSource: 'manual', pitch: 10, cameraHeight: 1.4 });
+  const [groundDistance] = estimator.process([detection('potted plant', 3)], frame).map(d => d.distance);
+
+  it('replaces the distance of classes without a reliable size', () => {
+    const [plant] = estimator.process([detection('potted plant', 3)], frame);
+    expect(plant.distanceSource).toBe('ground');
+  });
+
+  it('fuses agreeing estimates and flags disagreeing ones', () => {
+    const [agreeing] = estimator.process([detection('person', groundDistance * 1.1)], frame);
+    expect(agreeing.distanceSource).toBe('fused');
+
+    const [conflicting] = estimator.process([detection('person', groundDistance * 3)], frame);
+    expect(conflicting.distanceConflict).toBe(true);
+    expect(conflicting.distance).toBe(groundDistance * 3);
+  });
+});
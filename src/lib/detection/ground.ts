@@ -0,0 +1,156 @@
+import { getFocalLength, type CameraCalibration } from './calibration';
+import { blendErrors, clampDistance, DEFAULT_FOCAL_LENGTH, getDistanceError } from './distance';
+import { DEFAULT_SIZES, hasReliableSize, type SizeDatabase } from './sizes';
+import type { Detection, FrameInfo } from './types';
+
+export type PitchSource = 'sensor' | 'manual';
+
+export interface GroundPlaneOptions {
+  enabled: boolean;
+  cameraHeight: number;     // meters above the floor
+  pitchSource: PitchSource;
+  pitch: number;            // degrees below horizontal, used when pitchSource is 'manual'
+  tolerance: number;        // Relative disagreement with the known-height estimate that still counts as agreeing
+}
+
+export const DEFAULT_GROUND_PLANE: GroundPlaneOptions = {
+  enabled: false,
+  cameraHeight: 1.4,
+  pitchSource: 'sensor',
+  pitch: 10,
+  tolerance: 0.3,
+};
+
+// Rays closer than this to the horizon hit the floor too far away to measure reliably
+const MIN_RAY_ANGLE = 2 * Math.PI / 180;
+// Boxes whose bottom edge is this close to the frame edge are cut off
+const EDGE_MARGIN = 2;
+// Share of a new sensor reading blended into the pitch, since hand-held readings jitter
+const PITCH_SMOOTHING = 0.2;
+// Expected pitch error in degrees: sensors drift and shake, fixed mounts are measured once
+const PITCH_ERROR: Record<PitchSource, number> = { sensor: 2, manual: 1 };
+// Relative error of the camera height as entered
+const CAMERA_HEIGHT_ERROR = 0.05;
+
+// Classes rarely resting on the floor; their box bottom says nothing about their distance
+const AIRBORNE_CLASSES = new Set(['bird', 'kite', 'airplane', 'frisbee', 'sports ball', 'traffic light', 'clock']);
+
+// Camera pitch below horizontal in degrees from a device orientation reading. Portrait uses the
+// front-to-back tilt (beta, 90 when upright), landscape the left-to-right tilt (gamma).
+export const getPitchFromOrientation = (beta: number, gamma: number, screenAngle: number): number => {
+  const landscape = Math.abs(screenAngle) === 90;
+  return landscape ? 90 - Math.abs(gamma) : 90 - beta;
+};
+
+// iOS only delivers orientation events after the user grants access from a gesture
+export const requestOrientationPermission = async (): Promise<boolean> => {
+  const request = (DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<string> }).requestPermission;
+  if (!request) return true;
+  try {
+    return (await request()) === 'granted';
+  } catch {
+    return false;
+  }
+};
+
+// Subscribe to the device pitch; returns the unsubscribe function
+export const watchDevicePitch = (onPitch: (pitch: number) => void): (() => void) => {
+  const handleOrientation = (event: DeviceOrientationEvent) => {
+    if (event.beta === null || event.gamma === null) return;
+    onPitch(getPitchFromOrientation(event.beta, event.gamma, screen.orientation?.angle ?? 0));
+  };
+  window.addEventListener('deviceorientation', handleOrientation);
+  return () => window.removeEventListener('deviceorientation', handleOrientation);
+};
+
+// Distance along the optical axis to where the row meets the floor, with its relative error for
+// a given pitch error in degrees, or null when the row is at or above the horizon
+export const estimateGroundDistance = (
+  row: number,
+  frame: FrameInfo,
+  focalLength: number,
+  cameraHeight: number,
+  pitch: number,
+  pitchError = PITCH_ERROR.sensor,
+): { distance: number; error: number } | null => {
+  const rayAngle = Math.atan((row - frame.height / 2) / focalLength);
+  const belowHorizon = pitch * Math.PI / 180 + rayAngle;
+  if (belowHorizon < MIN_RAY_ANGLE) return null;
+  const range = cameraHeight / Math.sin(belowHorizon);
+  // Near the horizon a small pitch error moves the floor point a long way
+  const angleError = (pitchError * Math.PI / 180) / Math.tan(belowHorizon);
+  return { distance: range * Math.cos(rayAngle), error: Math.hypot(angleError, CAMERA_HEIGHT_ERROR) };
+};
+
+// Postprocessor that projects the bottom edge of each box onto the floor. Classes without a
+// reliable size take the ground distance; for the others both estimates are fused when they
+// agree, and a disagreement (object off the floor, unusual size) is flagged on the detection.
+export class GroundPlaneEstimator {
+  private options: GroundPlaneOptions;
+  private calibration: CameraCalibration | null = null;
+  private sensorPitch: number | null = null;
+  private sizes: SizeDatabase = DEFAULT_SIZES;
+
+  constructor(options: Partial<GroundPlaneOptions> = {}) {
+    this.options = { ...DEFAULT_GROUND_PLANE, ...options };
+  }
+
+  getOptions(): Readonly<GroundPlaneOptions> {
+    return this.options;
+  }
+
+  setOptions(options: Partial<GroundPlaneOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  setCalibration(calibration: CameraCalibration | null): void {
+    this.calibration = calibration;
+  }
+
+  setSizes(sizes: SizeDatabase): void {
+    this.sizes = sizes;
+  }
+
+  // Feed readings from watchDevicePitch
+  updatePitch(pitch: number): void {
+    this.sensorPitch = this.sensorPitch === null ? pitch : this.sensorPitch + (pitch - this.sensorPitch) * PITCH_SMOOTHING;
+  }
+
+  getPitch(): number | null {
+    return this.options.pitchSource === 'manual' ? this.options.pitch : this.sensorPitch;
+  }
+
+  reset(): void {
+    this.sensorPitch = null;
+  }
+
+  process = (detections: Detection[], frame: FrameInfo): Detection[] => {
+    const { enabled, cameraHeight, pitchSource, tolerance } = this.options;
+    const pitch = this.getPitch();
+    if (!enabled || pitch === null) return detections;
+    const focalLength = this.calibration ? getFocalLength(this.calibration, frame) : DEFAULT_FOCAL_LENGTH;
+
+    return detections.map(detection => {
+      const [, y, , height] = detection.bbox;
+      const bottom = y + height;
+      if (AIRBORNE_CLASSES.has(detection.class) || bottom >= frame.height - EDGE_MARGIN) return detection;
+
+      const ground = estimateGroundDistance(bottom, frame, focalLength, cameraHeight, pitch, PITCH_ERROR[pitchSource]);
+      if (ground === null) return detection;
+      const groundDistance = clampDistance(ground.distance);
+
+      if (!hasReliableSize(detection.class, this.sizes)) {
+        return { ...detection, distance: groundDistance, distanceStd: groundDistance * ground.error, distanceSource: 'ground' };
+      }
+      const disagreement = Math.abs(groundDistance - detection.distance) / detection.distance;
+      if (disagreement > tolerance) {
+        // Keep the known-size estimate, but at least as uncertain as the two methods are apart
+        const error = Math.max(getDistanceError(detection), disagreement);
+        return { ...detection, distanceStd: detection.distance * error, distanceConflict: true };
+      }
+      const distance = Math.sqrt(groundDistance * detection.distance);
+      const error = blendErrors(ground.error, getDistanceError(detection), 0.5);
+      return { ...detection, distance, distanceStd: distance * error, distanceSource: 'fused' };
+    });
+  };
+}
@@ -0,0 +1,51 @@
+import { loadModel } from './registry';
+import type { WorkerRequest, WorkerResponse } from './worker-model';
+import type { DetectionModel } from './types';
+
+// Dedicated worker that owns the model; frames arrive as ImageBitmaps
+const ctx = self as unknown as Worker;
+
+let model: DetectionModel | null = null;
+let canvas: OffscreenCanvas | null = null;
+let canvasCtx: OffscreenCanvasRenderingContext2D | null = null;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+// Rasterize the bitmap on an OffscreenCanvas so every backend can read it
+const readPixels = (frame: ImageBitmap): ImageData => {
+  if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+    canvasCtx = canvas.getContext('2d', { willReadFrequently: true });
+  }
+  canvasCtx.drawImage(frame, 0, 0);
+  frame.close();
+  return canvasCtx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'load') {
+    try {
+      model = await loadModel(message.spec, status => post({ type: 'status', status }), {
+        backend: message.backend,
+        onBenchmark: results => post({ type: 'benchmark', results }),
+        onProgress: fraction => post({ type: 'progress', fraction }),
+      });
+      post({ type: 'loaded', name: model.name, backend: model.backend ?? 'unknown' });
+    } catch (error) {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  try {
+    if (!model) {
+      throw new Error('Model not loaded');
+    }
+    const predictions = await model.detect(readPixels(message.frame), message.options);
+    post({ type: 'detections', id: message.id, predictions });
+  } catch (error) {
+    post({ type: 'error', id: message.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
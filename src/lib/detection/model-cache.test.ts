@@ -0,0 +1,54 @@
+import * as tf from '@tensorflow/tfjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheGraphModel } from './model-cache';
+
+vi.mock('@tensorflow/tfjs', () => ({
+  io: { listModels: vi.fn() },
+  loadGraphModel: vi.fn(),
+}));
+
+const MODEL_URL = 'http://localhost/models/coco-ssd/lite_mobilenet_v2/model.json';
+
+describe('cacheGraphModel', () => {
+  const save = vi.fn();
+  const dispose = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('self', { location: { href: 'http://localhost/' } });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(tf.io.listModels).mockResolvedValue({});
+    vi.mocked(tf.loadGraphModel).mockResolvedValue({ save, dispose } as unknown as tf.GraphModel);
+    save.mockReset();
+    dispose.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the IndexedDB copy without downloading when cached', async () => {
+    vi.mocked(tf.io.listModels).mockResolvedValue({ 'indexeddb://coco-ssd/lite': {} as tf.io.ModelArtifactsInfo });
+    expect(await cacheGraphModel(MODEL_URL, 'coco-ssd/lite')).toBe('indexeddb://coco-ssd/lite');
+    expect(tf.loadGraphModel).not.toHaveBeenCalled();
+  });
+
+  it('downloads once and saves the model to IndexedDB', async () => {
+    expect(await cacheGraphModel(MODEL_URL, 'coco-ssd/lite')).toBe('indexeddb://coco-ssd/lite');
+    expect(save).toHaveBeenCalledWith('indexeddb://coco-ssd/lite');
+    expect(dispose).toHaveBeenCalled();
+  });
+
+  it('falls back to the original URL when IndexedDB is unavailable', async () => {
+    vi.mocked(tf.io.listModels).mockRejectedValue(new Error('No IndexedDB'));
+    save.mockRejectedValue(new Error('No IndexedDB'));
+    expect(await cacheGraphModel(MODEL_URL, 'coco-ssd/lite')).toBe(MODEL_URL);
+    expect(dispose).toHaveBeenCalled();
+  });
+
+  it('rejects when the download fails, so callers can try another host', async () => {
+    vi.mocked(tf.loadGraphModel).mockRejectedValue(new Error('404'));
+    await expect(cacheGraphModel(MODEL_URL, 'coco-ssd/lite')).rejects.toThrow('404');
+  });
+});
@@ -0,0 +1,75 @@
+import * as tf from '@tensorflow/tfjs';
+
+type StatusCallback = (status: string) => void;
+export type ProgressCallback = (fraction: number) => void;
+
+// SRI hashes ("sha256-<base64>") keyed by file name, served as integrity.json next to model.json
+export type IntegrityManifest = Record<string, string>;
+
+const fileName = (url: string): string => new URL(url, self.location.href).pathname.split('/').pop() ?? '';
+
+// A missing manifest only disables verification; models from other hosts rarely ship one
+const loadIntegrityManifest = async (modelUrl: string): Promise<IntegrityManifest | null> => {
+  try {
+    const response = await fetch(new URL('integrity.json', new URL(modelUrl, self.location.href)));
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getCacheUrl = (cacheKey: string): string => `indexeddb://${cacheKey}`;
+
+export const isModelCached = async (cacheKey: string): Promise<boolean> => {
+  try {
+    return getCacheUrl(cacheKey) in (await tf.io.listModels());
+  } catch {
+    return false;
+  }
+};
+
+export const clearCachedModel = async (cacheKey: string): Promise<void> => {
+  if (await isModelCached(cacheKey)) {
+    await tf.io.removeModel(getCacheUrl(cacheKey));
+  }
+};
+
+// Make a graph model available offline: download it once with progress and integrity checks, save it
+// to IndexedDB and return the URL to load it from (the original URL when IndexedDB is unavailable)
+export const cacheGraphModel = async (
+  modelUrl: string,
+  cacheKey: string,
+  onStatus?: StatusCallback,
+  onProgress?: ProgressCallback,
+): Promise<string> => {
+  const cacheUrl = getCacheUrl(cacheKey);
+  if (await isModelCached(cacheKey)) {
+    onStatus?.('Loading model from offline cache...');
+    return cacheUrl;
+  }
+
+  onStatus?.('Downloading model...');
+  const integrity = await loadIntegrityManifest(modelUrl);
+  if (!integrity) {
+    console.warn(`No integrity manifest next to ${modelUrl}, skipping verification`);
+  }
+
+  // The browser rejects any response whose hash does not match the manifest
+  const model = await tf.loadGraphModel(modelUrl, {
+    onProgress: fraction => {
+      onProgress?.(fraction);
+      onStatus?.(`Downloading model... ${Math.round(fraction * 100)}%`);
+    },
+    fetchFunc: (input: string, init?: RequestInit) => fetch(input, { ...init, integrity: integrity?.[fileName(input)] }),
+  });
+
+  try {
+    await model.save(cacheUrl);
+    return cacheUrl;
+  } catch (error) {
+    console.warn('Could not cache the model for offline use:', error);
+    return modelUrl;
+  } finally {
+    model.dispose();
+  }
+};
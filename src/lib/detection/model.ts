@@ -0,0 +1,49 @@
+import * as tf from '@tensorflow/tfjs';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import type { DetectOptions, DetectionModel, FrameInput, Prediction } from './types';
+
+type StatusCallback = (status: string) => void;
+
+// Where cocoSsd.load() fetches each base from when no modelUrl is given
+export const COCO_SSD_CDN_URLS: Record<cocoSsd.ObjectDetectionBaseModel, string> = {
+  lite_mobilenet_v2: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/model.json',
+  mobilenet_v1: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssd_mobilenet_v1/model.json',
+  mobilenet_v2: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssd_mobilenet_v2/model.json',
+};
+
+// Wait for TensorFlow.js and switch to the first backend that initializes (WebGL, then CPU by default)
+export const initBackend = async (onStatus?: StatusCallback, backends: string[] = ['webgl', 'cpu']): Promise<string> => {
+  onStatus?.('Initializing TensorFlow.js...');
+  await tf.ready();
+
+  onStatus?.('Setting up backend...');
+  for (const backend of backends) {
+    try {
+      if (await tf.setBackend(backend)) {
+        console.log(`${backend} backend set successfully`);
+        break;
+      }
+    } catch (backendError) {
+      console.log(`${backend} backend not available`, backendError);
+    }
+  }
+  return tf.getBackend();
+};
+
+// Adapt COCO-SSD to the engine's DetectionModel interface
+export const createCocoSsdModel = (model: cocoSsd.ObjectDetection, base: cocoSsd.ObjectDetectionBaseModel): DetectionModel => ({
+  name: `coco-ssd/${base}`,
+  backend: tf.getBackend(),
+  detect: async (input: FrameInput, options: DetectOptions = {}): Promise<Prediction[]> =>
+    model.detect(input, options.maxBoxes, options.minScore),
+  dispose: () => model.dispose(),
+});
+
+// Load COCO-SSD; expects the backend to be initialized already
+export const loadCocoSsdModel = async (config: cocoSsd.ModelConfig = {}, onStatus?: StatusCallback): Promise<DetectionModel> => {
+  const base = config.base ?? 'lite_mobilenet_v2';
+  onStatus?.(`Loading COCO-SSD model (${base})...`);
+  const model = await cocoSsd.load({ ...config, base });
+  console.log('COCO-SSD model loaded successfully');
+  return createCocoSsdModel(model, base);
+};
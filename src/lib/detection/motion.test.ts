@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DetectionEngine } from './engine';
+import { DEFAULT_MOTION, MotionDetector, type MotionOptions } from './motion';
+import type { FrameSource } from './sources';
+import type { FrameInput } from './types';
+
+// Fake frames are flat gray images of the given brightness, with an optional bright patch
+interface FakeFrame {
+  luma: number;
+  patch?: number;  // Share of pixels that are white
+}
+
+const frame = (luma: number, patch?: number) => ({ luma, patch }) as unknown as FrameInput;
+
+const stubCanvas = () => {
+  let drawn: FakeFrame = { luma: 0 };
+  const ctx = {
+    drawImage: (input: FakeFrame) => {
+      drawn = input;
+    },
+    getImageData: (_x: number, _y: number, width: number, height: number) => {
+      const pixels = width * height;
+      const patch = Math.round((drawn.patch ?? 0) * pixels);
+      const data = new Uint8ClampedArray(pixels * 4);
+      for (let i = 0; i < pixels; i++) {
+        data.fill(i < patch ? 255 : drawn.luma, i * 4, i * 4 + 3);
+      }
+      return { data };
+    },
+  };
+  vi.stubGlobal('document', { createElement: () => ({ width: 0, height: 0, getContext: () => ctx }) });
+  vi.stubGlobal('ImageData', class {});
+};
+
+const options: MotionOptions = { ...DEFAULT_MOTION, enabled: true, pixelThreshold: 25, areaThreshold: 0.05, maxSkip: 1000 };
+
+describe('MotionDetector', () => {
+  beforeEach(stubCanvas);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('treats the first sample as motion', () => {
+    const detector = new MotionDetector();
+    expect(detector.update(frame(100), 640, 480, options)).toMatchObject({ width: 64, height: 48, moving: true, changed: 0 });
+  });
+
+  it('ignores changes below the pixel or area threshold', () => {
+    const detector = new MotionDetector();
+    detector.update(frame(100), 640, 480, options);
+    expect(detector.update(frame(110), 640, 480, options).moving).toBe(false);
+    expect(detector.update(frame(110, 0.02), 640, 480, options).moving).toBe(false);
+  });
+
+  it('reports motion when enough cells change', () => {
+    const detector = new MotionDetector();
+    detector.update(frame(100), 640, 480, options);
+    const result = detector.update(frame(100, 0.1), 640, 480, options);
+    expect(result.moving).toBe(true);
+    expect(result.changed).toBeCloseTo(0.1, 2);
+    expect(result.mask[0]).toBe(1);
+    expect(result.mask[result.mask.length - 1]).toBe(0);
+  });
+
+  it('skips inputs it cannot sample', () => {
+    const detector = new MotionDetector();
+    expect(detector.update({ shape: [480, 640, 3] } as unknown as FrameInput, 640, 480, options)).toBeNull();
+  });
+});
+
+describe('DetectionEngine motion gating', () => {
+  let clock = 0;
+  let tick: FrameRequestCallback | null = null;
+
+  beforeEach(() => {
+    stubCanvas();
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      tick = callback;
+      return 1;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {
+      tick = null;
+    });
+    vi.spyOn(performance, 'now').mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('skips static frames until maxSkip and detects as soon as the scene moves', async () => {
+    let current = frame(100);
+    const source = { width: 640, height: 480, ended: false, getFrame: () => current } as unknown as FrameSource;
+    const detect = vi.fn(async () => []);
+    const engine = new DetectionEngine({
+      model: { name: 'fake', detect },
+      motion: options,
+      scheduler: { targetFps: 0, cpuBudget: 1, minInterval: 0, maxInterval: 0, hiddenInterval: 0 },
+    });
+
+    const runAt = async (time: number) => {
+      clock = time;
+      await tick(time);
+    };
+
+    engine.start(source);
+    await runAt(100);
+    expect(detect).toHaveBeenCalledTimes(1);
+
+    await runAt(300);
+    await runAt(600);
+    expect(detect).toHaveBeenCalledTimes(1);
+
+    // A still scene is re-checked after maxSkip
+    await runAt(1100);
+    expect(detect).toHaveBeenCalledTimes(2);
+
+    await runAt(1300);
+    expect(detect).toHaveBeenCalledTimes(2);
+    current = frame(100, 0.2);
+    await runAt(1400);
+    expect(detect).toHaveBeenCalledTimes(3);
+    engine.stop();
+  });
+});
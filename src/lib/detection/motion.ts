@@ -0,0 +1,80 @@
+import type { FrameInput } from './types';
+
+export interface MotionOptions {
+  enabled: boolean;
+  pixelThreshold: number;  // Luma change (0..255) for a cell to count as moving
+  areaThreshold: number;   // Share of moving cells (0..1) that counts as scene motion
+  maxSkip: number;         // ms; static scenes are still re-checked this often
+  showMask: boolean;       // Draw the motion mask on the overlay while tuning
+}
+
+export const DEFAULT_MOTION: MotionOptions = {
+  enabled: false,
+  pixelThreshold: 25,
+  areaThreshold: 0.01,
+  maxSkip: 3000,
+  showMask: false,
+};
+
+export interface MotionResult {
+  width: number;
+  height: number;
+  mask: Uint8Array;  // 1 where the cell changed since the previous sample
+  changed: number;   // Share of cells that changed (0..1)
+  moving: boolean;
+}
+
+// Width of the downscaled frame the difference is computed on
+const SAMPLE_WIDTH = 64;
+
+// Cheap frame differencing on a downscaled grayscale copy of the frame
+export class MotionDetector {
+  private canvas: HTMLCanvasElement | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private previous: Uint8Array | null = null;
+
+  reset(): void {
+    this.previous = null;
+  }
+
+  // Returns null for inputs it cannot sample (tensors, raw ImageData)
+  update(input: FrameInput, frameWidth: number, frameHeight: number, options: MotionOptions): MotionResult | null {
+    if ('shape' in input || input instanceof ImageData || frameWidth === 0 || frameHeight === 0) return null;
+
+    const width = SAMPLE_WIDTH;
+    const height = Math.max(1, Math.round((frameHeight / frameWidth) * SAMPLE_WIDTH));
+    if (!this.canvas) {
+      this.canvas = document.createElement('canvas');
+      this.ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    }
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.previous = null;
+    }
+
+    this.ctx.drawImage(input, 0, 0, width, height);
+    const { data } = this.ctx.getImageData(0, 0, width, height);
+
+    const luma = new Uint8Array(width * height);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+    }
+
+    const mask = new Uint8Array(luma.length);
+    let changedCells = 0;
+    if (this.previous) {
+      for (let i = 0; i < luma.length; i++) {
+        if (Math.abs(luma[i] - this.previous[i]) > options.pixelThreshold) {
+          mask[i] = 1;
+          changedCells++;
+        }
+      }
+    }
+    const firstSample = this.previous === null;
+    this.previous = luma;
+
+    const changed = changedCells / luma.length;
+    return { width, height, mask, changed, moving: firstSample || changed > options.areaThreshold };
+  }
+}
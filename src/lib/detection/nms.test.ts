@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { intersectionOverSmaller } from './geometry';
+import { nonMaxSuppression } from './nms';
+import type { BBox, Prediction } from './types';
+
+const prediction = (cls: string, bbox: BBox, score: number): Prediction => ({ class: cls, bbox, score });
+
+describe('nonMaxSuppression', () => {
+  it('keeps the highest-scoring of overlapping boxes', () => {
+    const kept = nonMaxSuppression([
+      prediction('person', [0, 0, 100, 100], 0.6),
+      prediction('person', [5, 5, 100, 100], 0.9),
+      prediction('person', [300, 0, 100, 100], 0.5),
+    ], 0.5);
+    expect(kept.map(p => p.score)).toEqual([0.9, 0.5]);
+  });
+
+  it('only suppresses the same class unless classAware is off', () => {
+    const items = [prediction('person', [0, 0, 100, 100], 0.9), prediction('dog', [0, 0, 100, 100], 0.8)];
+    expect(nonMaxSuppression(items, 0.5)).toHaveLength(2);
+    expect(nonMaxSuppression(items, 0.5, false)).toHaveLength(1);
+  });
+
+  it('accepts another overlap measure', () => {
+    // A small box inside a large one: low IoU, but fully covered
+    const items = [prediction('car', [0, 0, 200, 200], 0.9), prediction('car', [50, 50, 40, 40], 0.7)];
+    expect(nonMaxSuppression(items, 0.5)).toHaveLength(2);
+    expect(nonMaxSuppression(items, 0.5, true, intersectionOverSmaller)).toHaveLength(1);
+  });
+});
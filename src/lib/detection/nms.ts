@@ -0,0 +1,22 @@
+import { iou } from './geometry';
+import type { BBox, Prediction } from './types';
+
+// Greedy non-max suppression; with classAware only boxes of the same label suppress each other
+export const nonMaxSuppression = <T extends Prediction>(
+  items: T[],
+  iouThreshold: number,
+  classAware = true,
+  overlap: (a: BBox, b: BBox) => number = iou,
+): T[] => {
+  const sorted = [...items].sort((a, b) => b.score - a.score);
+  const kept: T[] = [];
+
+  for (const candidate of sorted) {
+    const suppressed = kept.some(existing =>
+      (!classAware || existing.class === candidate.class) && overlap(existing.bbox, candidate.bbox) > iouThreshold);
+    if (!suppressed) {
+      kept.push(candidate);
+    }
+  }
+  return kept;
+};
@@ -0,0 +1,165 @@
+import { getDistanceColor } from './distance';
+import { getDisplayLabel } from './labels';
+import type { MotionResult } from './motion';
+import type { Point, Region, RegionKind } from './regions';
+import type { Detection } from './types';
+
+// Match the canvas backing store to the frame so bbox pixels line up
+export const resizeCanvas = (canvas: HTMLCanvasElement, width: number, height: number): void => {
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+};
+
+// "2.4m ±0.6"; "?" marks distances the estimation methods could not agree on
+export const formatDistance = (detection: Detection): string => {
+  const conflict = detection.distanceConflict ? '?' : '';
+  const spread = detection.distanceStd === undefined ? '' : ` ±${detection.distanceStd.toFixed(1)}`;
+  return `${detection.distance.toFixed(1)}m${conflict}${spread}`;
+};
+
+export const formatLabel = (detection: Detection): string => {
+  const posture = detection.pose && detection.pose.posture !== 'unknown' ? `, ${detection.pose.posture}` : '';
+  return `${getDisplayLabel(detection)}${posture} (${formatDistance(detection)}, ${detection.direction})`;
+};
+
+// Draw bounding boxes with distance-based colors
+export const drawDetections = (ctx: CanvasRenderingContext2D, detections: Detection[]): void => {
+  detections.forEach(detection => {
+    const [x, y, width, height] = detection.bbox;
+    const color = getDistanceColor(detection.distance);
+
+    // Draw bounding box
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.strokeRect(x, y, width, height);
+
+    // Draw label with distance and direction
+    const label = formatLabel(detection);
+    const labelPadding = 8;
+    const labelHeight = 20;
+    ctx.font = 'bold 14px Arial';
+    const labelWidth = ctx.measureText(label).width + labelPadding * 2;
+
+    // Position label above the object, or below if too close to top
+    const labelY = y > labelHeight + 10 ? y - 10 : y + height + 10;
+    const labelX = x;
+
+    // Label background
+    ctx.fillStyle = color + 'CC'; // Semi-transparent
+    ctx.fillRect(labelX, labelY - labelHeight + 5, labelWidth, labelHeight);
+
+    // Label border
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(labelX, labelY - labelHeight + 5, labelWidth, labelHeight);
+
+    // Label text
+    ctx.fillStyle = '#FFFFFF';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, labelX + labelPadding, labelY - labelHeight / 2 + 5);
+  });
+};
+
+// Bones between COCO keypoints, as MoveNet reports them
+const SKELETON: [string, string][] = [
+  ['left_shoulder', 'right_shoulder'], ['left_hip', 'right_hip'],
+  ['left_shoulder', 'left_hip'], ['right_shoulder', 'right_hip'],
+  ['left_shoulder', 'left_elbow'], ['left_elbow', 'left_wrist'],
+  ['right_shoulder', 'right_elbow'], ['right_elbow', 'right_wrist'],
+  ['left_hip', 'left_knee'], ['left_knee', 'left_ankle'],
+  ['right_hip', 'right_knee'], ['right_knee', 'right_ankle'],
+  ['nose', 'left_eye'], ['nose', 'right_eye'], ['left_eye', 'left_ear'], ['right_eye', 'right_ear'],
+];
+
+// Draw skeletons for detections that carry a pose
+export const drawPoses = (ctx: CanvasRenderingContext2D, detections: Detection[], minScore = 0.3): void => {
+  detections.forEach(({ pose }) => {
+    if (!pose) return;
+    const points = new Map(pose.keypoints.filter(keypoint => keypoint.score >= minScore).map(keypoint => [keypoint.name, keypoint]));
+    const color = pose.posture === 'lying' ? '#FF0000' : '#00FFFF';
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    SKELETON.forEach(([from, to]) => {
+      const a = points.get(from);
+      const b = points.get(to);
+      if (!a || !b) return;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+    });
+
+    ctx.fillStyle = color;
+    points.forEach(({ x, y }) => {
+      ctx.beginPath();
+      ctx.arc(x, y, 3, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  });
+};
+
+const REGION_COLORS: Record<RegionKind, string> = {
+  include: '#00FF00',
+  exclude: '#FF0000',
+};
+
+// Draw include/exclude zones, plus the polygon currently being drawn
+export const drawRegions = (ctx: CanvasRenderingContext2D, regions: Region[], draft: Region | null = null): void => {
+  const { width, height } = ctx.canvas;
+
+  [...regions, ...(draft ? [draft] : [])].forEach(region => {
+    if (region.points.length === 0) return;
+    const color = REGION_COLORS[region.kind];
+    const isDraft = region === draft;
+
+    ctx.beginPath();
+    region.points.forEach(([x, y], i) => {
+      if (i === 0) ctx.moveTo(x * width, y * height);
+      else ctx.lineTo(x * width, y * height);
+    });
+    if (!isDraft) ctx.closePath();
+
+    ctx.setLineDash(isDraft ? [6, 4] : []);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    if (!isDraft && region.points.length >= 3) {
+      ctx.fillStyle = color + '22'; // Faint fill
+      ctx.fill();
+    }
+    ctx.setLineDash([]);
+
+    // Vertex handles
+    ctx.fillStyle = color;
+    region.points.forEach(([x, y]) => {
+      ctx.fillRect(x * width - 3, y * height - 3, 6, 6);
+    });
+  });
+};
+
+// Tint the cells that changed in the last motion sample
+export const drawMotionMask = (ctx: CanvasRenderingContext2D, motion: MotionResult): void => {
+  const cellWidth = ctx.canvas.width / motion.width;
+  const cellHeight = ctx.canvas.height / motion.height;
+
+  ctx.fillStyle = '#FF00FF55';
+  for (let i = 0; i < motion.mask.length; i++) {
+    if (!motion.mask[i]) continue;
+    const x = i % motion.width;
+    const y = Math.floor(i / motion.width);
+    ctx.fillRect(x * cellWidth, y * cellHeight, Math.ceil(cellWidth), Math.ceil(cellHeight));
+  }
+};
+
+// Convert a pointer position on the overlay canvas to normalized frame coordinates
+export const toNormalizedPoint = (canvas: HTMLCanvasElement, clientX: number, clientY: number): Point => {
+  const rect = canvas.getBoundingClientRect();
+  return [
+    Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)),
+    Math.min(1, Math.max(0, (clientY - rect.top) / rect.height)),
+  ];
+};
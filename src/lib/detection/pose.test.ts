@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { classifyPosture, PoseEstimator } from './pose';
+import { ObjectTracker } from './tracker';
+import type { BBox, Detection, Keypoint } from './types';
+
+const keypoint = (name: string, x: number, y: number): Keypoint => ({ name, x, y, score: 0.9 });
+
+// Shoulders, hips and knees along the long axis of the box
+const bodyKeypoints = ([x, y, width, height]: BBox): Keypoint[] => {
+  const upright = height > width;
+  return [['shoulder', 0.2], ['hip', 0.5], ['knee', 0.75]].flatMap(([joint, share]: [string, number]) => {
+    const px = upright ? x + width / 2 : x + width * share;
+    const py = upright ? y + height * share : y + height / 2;
+    return [keypoint(`left_${joint}`, px, py), keypoint(`right_${joint}`, px, py)];
+  });
+};
+
+const person = (bbox: BBox): Detection => ({
+  id: 'raw', class: 'person', bbox, score: 0.9, distance: 3, direction: 'Center',
+});
+
+describe('classifyPosture', () => {
+  it('reads an upright body as standing and a horizontal one as lying', () => {
+    expect(classifyPosture(bodyKeypoints([100, 100, 60, 180]), [100, 100, 60, 180], 0.3)).toBe('standing');
+    expect(classifyPosture(bodyKeypoints([60, 230, 180, 60]), [60, 230, 180, 60], 0.3)).toBe('lying');
+  });
+
+  it('falls back to the box shape without keypoints', () => {
+    expect(classifyPosture([], [0, 0, 180, 60], 0.3)).toBe('lying');
+    expect(classifyPosture([], [0, 0, 60, 180], 0.3)).toBe('unknown');
+  });
+});
+
+describe('fall detection', () => {
+  // Someone standing, then lying on the floor where they stood: the box turns from tall to wide
+  const boxes: BBox[] = [
+    [100, 100, 60, 180],
+    [100, 100, 60, 180],
+    [100, 100, 60, 180],
+    [70, 230, 170, 60],
+    [68, 232, 172, 58],
+    [68, 232, 172, 58],
+  ];
+
+  it('raises one fall when a standing person lies down', () => {
+    const tracker = new ObjectTracker();
+    const estimator = new PoseEstimator();
+    const falls: string[] = [];
+    estimator.on('fall', ({ detection }) => falls.push(detection.id));
+
+    const ids = boxes.map((bbox, i) => {
+      const frame = { width: 640, height: 480, timestamp: i * 200 };
+      const [tracked] = tracker.process([person(bbox)], frame);
+      estimator.trackPosture(tracked, classifyPosture(bodyKeypoints(bbox), bbox, 0.3), frame.timestamp);
+      return tracked.id;
+    });
+
+    expect(new Set(ids).size).toBe(1);
+    expect(falls).toEqual([ids[0]]);
+  });
+
+  it('does not raise a fall when lying down slower than the fall window', () => {
+    const estimator = new PoseEstimator({ fallWindow: 1000 });
+    const falls: string[] = [];
+    estimator.on('fall', ({ detection }) => falls.push(detection.id));
+
+    const detection = { ...person(boxes[0]), id: 'person-1' };
+    estimator.trackPosture(detection, 'standing', 0);
+    estimator.trackPosture(detection, 'sitting', 800);
+    estimator.trackPosture(detection, 'lying', 1600);
+    estimator.trackPosture(detection, 'lying', 1800);
+    expect(falls).toEqual([]);
+  });
+});
@@ -0,0 +1,209 @@
+import * as tf from '@tensorflow/tfjs';
+import * as poseDetection from '@tensorflow-models/pose-detection';
+import { TypedEmitter } from './emitter';
+import type { Detection, FrameInfo, FrameInput, Keypoint, PoseResult, Posture } from './types';
+
+export type PoseModelType = 'lightning' | 'thunder';
+
+export interface PoseOptions {
+  enabled: boolean;
+  model: PoseModelType;
+  maxPeople: number;         // Person crops estimated per frame, highest detector score first
+  minKeypointScore: number;  // Keypoints below this confidence are ignored for posture
+  fallWindow: number;        // ms; standing to lying within this counts as a fall
+}
+
+export const DEFAULT_POSE: PoseOptions = {
+  enabled: false,
+  model: 'lightning',
+  maxPeople: 2,
+  minKeypointScore: 0.3,
+  fallWindow: 1500,
+};
+
+export interface FallEvent {
+  detection: Detection;
+  timestamp: number;
+}
+
+export interface PoseEstimatorEvents {
+  fall: FallEvent;
+}
+
+const MODEL_TYPES: Record<PoseModelType, string> = {
+  lightning: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+  thunder: poseDetection.movenet.modelType.SINGLEPOSE_THUNDER,
+};
+
+const CROP_SIZE = 256;
+const CROP_PADDING = 0.1;
+
+// Consecutive lying estimates needed before a fall is reported, to ride out single bad frames
+const LYING_CONFIRM = 2;
+
+// Torso more than this far from vertical reads as lying
+const LYING_TORSO_ANGLE = 60;
+// Thighs more than this far from vertical (with an upright torso) read as sitting
+const SITTING_THIGH_ANGLE = 50;
+
+// MoveNet single-pose, with its cross-frame smoothing off since crops of different people share it
+export const loadPoseDetector = async (model: PoseModelType = 'lightning'): Promise<poseDetection.PoseDetector> => {
+  await tf.ready();
+  const detector = await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+    modelType: MODEL_TYPES[model],
+    enableSmoothing: false,
+  });
+  console.log(`MoveNet ${model} pose model loaded`);
+  return detector;
+};
+
+const midpoint = (a: Keypoint, b: Keypoint): Keypoint => ({ name: '', x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, score: Math.min(a.score, b.score) });
+
+// Angle of the segment from vertical in degrees (0 = upright, 90 = horizontal)
+const angleFromVertical = (from: Keypoint, to: Keypoint): number =>
+  Math.abs(Math.atan2(Math.abs(to.x - from.x), Math.abs(to.y - from.y))) * 180 / Math.PI;
+
+// Rule-based posture from torso and thigh angles, falling back to the box shape
+export const classifyPosture = (keypoints: Keypoint[], bbox: Detection['bbox'], minScore: number): Posture => {
+  const find = (name: string) => keypoints.find(keypoint => keypoint.name === name && keypoint.score >= minScore);
+  const shoulders = [find('left_shoulder'), find('right_shoulder')].filter(Boolean);
+  const hips = [find('left_hip'), find('right_hip')].filter(Boolean);
+  const knees = [find('left_knee'), find('right_knee')].filter(Boolean);
+
+  if (shoulders.length === 0 || hips.length === 0) {
+    const [, , width, height] = bbox;
+    return width > height * 1.2 ? 'lying' : 'unknown';
+  }
+
+  const shoulder = shoulders.length === 2 ? midpoint(shoulders[0], shoulders[1]) : shoulders[0];
+  const hip = hips.length === 2 ? midpoint(hips[0], hips[1]) : hips[0];
+  if (angleFromVertical(shoulder, hip) > LYING_TORSO_ANGLE) return 'lying';
+  if (knees.length === 0) return 'unknown';
+
+  const knee = knees.length === 2 ? midpoint(knees[0], knees[1]) : knees[0];
+  return angleFromVertical(hip, knee) > SITTING_THIGH_ANGLE ? 'sitting' : 'standing';
+};
+
+interface PostureHistory {
+  lastStanding: number | null;  // Timestamp of the last standing estimate
+  lyingFrames: number;
+  fallen: boolean;
+}
+
+// Refiner that estimates a pose on each person crop, classifies the posture and reports falls
+// of tracked people. Runs after the tracker so ids are stable across frames.
+export class PoseEstimator extends TypedEmitter<PoseEstimatorEvents> {
+  private options: PoseOptions;
+  private detector: poseDetection.PoseDetector | null = null;
+  private history = new Map<string, PostureHistory>();
+
+  constructor(options: Partial<PoseOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_POSE, ...options };
+  }
+
+  getOptions(): Readonly<PoseOptions> {
+    return this.options;
+  }
+
+  setOptions(options: Partial<PoseOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Takes ownership: the previous detector is disposed
+  setDetector(detector: poseDetection.PoseDetector | null): void {
+    if (detector === this.detector) return;
+    this.detector?.dispose();
+    this.detector = detector;
+    this.history.clear();
+  }
+
+  reset(): void {
+    this.history.clear();
+  }
+
+  refine = async (input: FrameInput, detections: Detection[], frame: FrameInfo): Promise<Detection[]> => {
+    const { enabled, maxPeople, minKeypointScore } = this.options;
+    const detector = this.detector;
+    if (!enabled || !detector) return detections;
+
+    const ids = new Set(detections.map(detection => detection.id));
+    [...this.history.keys()].forEach(id => {
+      if (!ids.has(id)) this.history.delete(id);
+    });
+
+    const people = detections
+      .filter(detection => detection.class === 'person')
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxPeople);
+    if (people.length === 0) return detections;
+
+    // Square crops keep body proportions intact; [y1, x1, y2, x2] relative to the frame
+    const regions = people.map(({ bbox: [x, y, width, height] }) => {
+      const side = Math.max(width, height) * (1 + CROP_PADDING * 2);
+      return { left: x + width / 2 - side / 2, top: y + height / 2 - side / 2, side };
+    });
+    const crops = tf.tidy(() => {
+      const pixels = input instanceof tf.Tensor ? input : tf.browser.fromPixels(input);
+      return tf.unstack(tf.image.cropAndResize(
+        pixels.toFloat().expandDims(0) as tf.Tensor4D,
+        regions.map(({ left, top, side }) => [top / frame.height, left / frame.width, (top + side) / frame.height, (left + side) / frame.width]),
+        regions.map(() => 0),
+        [CROP_SIZE, CROP_SIZE],
+      ).toInt()) as tf.Tensor3D[];
+    });
+
+    const poses = new Map<string, PoseResult>();
+    try {
+      for (let i = 0; i < people.length; i++) {
+        detector.reset();
+        const [pose] = await detector.estimatePoses(crops[i]);
+        if (!pose) continue;
+
+        const { left, top, side } = regions[i];
+        const scale = side / CROP_SIZE;
+        const keypoints = pose.keypoints.map(keypoint => ({
+          name: keypoint.name ?? '',
+          x: left + keypoint.x * scale,
+          y: top + keypoint.y * scale,
+          score: keypoint.score ?? 0,
+        }));
+        const posture = classifyPosture(keypoints, people[i].bbox, minKeypointScore);
+        poses.set(people[i].id, { keypoints, posture, score: pose.score ?? 0 });
+        this.trackPosture(people[i], posture, frame.timestamp);
+      }
+    } finally {
+      tf.dispose(crops);
+    }
+
+    return detections.map(detection => {
+      const pose = poses.get(detection.id);
+      return pose ? { ...detection, pose } : detection;
+    });
+  };
+
+  // Standing followed by lying within fallWindow raises one fall until the person stands up again.
+  // Called by refine; public so posture sequences can be fed without a pose model.
+  trackPosture(detection: Detection, posture: Posture, timestamp: number): void {
+    let history = this.history.get(detection.id);
+    if (!history) {
+      history = { lastStanding: null, lyingFrames: 0, fallen: false };
+      this.history.set(detection.id, history);
+    }
+
+    if (posture === 'standing') {
+      history.lastStanding = timestamp;
+      history.lyingFrames = 0;
+      history.fallen = false;
+    } else if (posture === 'lying') {
+      history.lyingFrames++;
+      const quick = history.lastStanding !== null && timestamp - history.lastStanding <= this.options.fallWindow;
+      if (!history.fallen && quick && history.lyingFrames >= LYING_CONFIRM) {
+        history.fallen = true;
+        this.emit('fall', { detection, timestamp });
+      }
+    } else {
+      history.lyingFrames = 0;
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DepthEstimator } from './depth';
+import { DetectionEngine } from './engine';
+import { describePipeline } from './recording';
+import { DetectionSmoother } from './smoothing';
+import { ObjectTracker } from './tracker';
+
+describe('describePipeline', () => {
+  it('captures the engine and stage settings', () => {
+    const engine = new DetectionEngine({ minScore: 0.3, nmsIoUThreshold: null });
+    const pipeline = describePipeline(engine, { tracker: new ObjectTracker({ maxAge: 500 }), smoother: new DetectionSmoother({ window: 7 }) });
+    expect(pipeline.engine).toMatchObject({ minScore: 0.3, nmsIoUThreshold: null });
+    expect(pipeline.tracker?.maxAge).toBe(500);
+    expect(pipeline.smoothing?.window).toBe(7);
+    expect(JSON.parse(JSON.stringify(pipeline))).toEqual(pipeline);
+  });
+
+  it('drops depth models picked from local files', () => {
+    const engine = new DetectionEngine();
+    const local = new DepthEstimator({ enabled: true, model: { source: [] } });
+    const hosted = new DepthEstimator({ enabled: true, model: { source: 'https://models.example/midas/model.json' } });
+    expect(describePipeline(engine, { depthEstimator: local }).depth?.model).toBeNull();
+    expect(describePipeline(engine, { depthEstimator: hosted }).depth?.model?.source).toBe('https://models.example/midas/model.json');
+  });
+});
@@ -0,0 +1,226 @@
+import { getClassThreshold } from './class-filter';
+import type { DepthEstimator, DepthOptions } from './depth';
+import { downloadBlob } from './download';
+import type { DetectionEngine, DetectionEngineOptions } from './engine';
+import type { GroundPlaneEstimator, GroundPlaneOptions } from './ground';
+import { EMPTY_REDACTION, canStoreFrames, hasRedaction, redactFrame, type RedactionPolicy } from './redaction';
+import type { DetectionSmoother, SmoothingOptions } from './smoothing';
+import type { ObjectTracker, TrackerOptions } from './tracker';
+import type { Detection, FrameInput, FrameResult } from './types';
+
+export interface RecordedFrame {
+  index: number;
+  timestamp: number;
+  width: number;
+  height: number;
+  image: string;  // JPEG data URL, or a path/URL the replayer can resolve
+  detections: Detection[];
+  pitch?: number;  // Camera pitch the ground plane used, when it was enabled
+}
+
+// Engine settings that change which boxes come out and where
+export type RecordedEngineOptions = Pick<
+  DetectionEngineOptions,
+  'minScore' | 'classFilter' | 'regions' | 'calibration' | 'sizes' | 'maxBoxes' | 'detectorMinScore' | 'nmsIoUThreshold' | 'tiling'
+>;
+
+// Settings of the whole pipeline when recording started, so a replay can rebuild it
+export interface RecordedPipeline {
+  engine: RecordedEngineOptions;
+  tracker?: TrackerOptions;
+  smoothing?: SmoothingOptions;
+  groundPlane?: GroundPlaneOptions;
+  depth?: DepthOptions;  // model is null when it was picked from local files, which cannot be stored
+}
+
+// Version 1 recordings carry no pipeline and replay with defaults
+export interface SessionRecording {
+  version: 1 | 2;
+  model: string;
+  createdAt: string;
+  pipeline?: RecordedPipeline;
+  frames: RecordedFrame[];
+}
+
+// Pipeline stages outside the engine whose settings are recorded
+export interface RecordedStages {
+  tracker?: ObjectTracker;
+  smoother?: DetectionSmoother;
+  groundPlane?: GroundPlaneEstimator;
+  depthEstimator?: DepthEstimator;
+}
+
+export interface SessionRecorderOptions {
+  maxFrames?: number;  // Recording stops growing past this many frames
+  quality?: number;    // JPEG quality of the captured frames
+  redaction?: RedactionPolicy;
+  stages?: RecordedStages;
+}
+
+export const describePipeline = (engine: DetectionEngine, { tracker, smoother, groundPlane, depthEstimator }: RecordedStages = {}): RecordedPipeline => {
+  const { minScore, classFilter, regions, calibration, sizes, maxBoxes, detectorMinScore, nmsIoUThreshold, tiling } = engine.getOptions();
+  const depth = depthEstimator?.getOptions();
+  return {
+    engine: { minScore, classFilter, regions, calibration, sizes, maxBoxes, detectorMinScore, nmsIoUThreshold, tiling },
+    tracker: tracker?.getOptions(),
+    smoothing: smoother?.getOptions(),
+    groundPlane: groundPlane?.getOptions(),
+    depth: depth && { ...depth, model: typeof depth.model?.source === 'string' ? depth.model : null },
+  };
+};
+
+// Copy a frame input onto a canvas; nothing is encoded until it has been redacted
+const captureFrame = (input: FrameInput, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if ('shape' in input) {
+    throw new Error('Tensor frames cannot be recorded');
+  }
+  if (input instanceof ImageData) {
+    ctx.putImageData(input, 0, 0);
+  } else {
+    ctx.drawImage(input, 0, 0, width, height);
+  }
+  return canvas;
+};
+
+const STRICT_WITHOUT_RULES = 'Strict redaction is on, but no class is selected to redact';
+
+// Raw boxes are redacted from the same score on as the engine shows them
+const applyRedaction = (canvas: HTMLCanvasElement, result: Pick<FrameResult, 'detections' | 'predictions'>, policy: RedactionPolicy, engine: DetectionEngine): void => {
+  if (hasRedaction(policy)) {
+    const { classFilter, minScore } = engine.getOptions();
+    redactFrame(canvas.getContext('2d'), result, policy, className => getClassThreshold(classFilter, className, minScore));
+  }
+};
+
+// Records frames, timestamps and emitted detections of a live engine session
+export class SessionRecorder {
+  private frames: RecordedFrame[] = [];
+  private pending = new Map<number, Omit<RecordedFrame, 'detections' | 'image'> & { canvas: HTMLCanvasElement }>();
+  private unsubscribers: (() => void)[] = [];
+  private options: Required<SessionRecorderOptions>;
+  private pipeline: RecordedPipeline | null = null;
+
+  constructor(private engine: DetectionEngine, options: SessionRecorderOptions = {}) {
+    this.options = { maxFrames: 600, quality: 0.8, redaction: EMPTY_REDACTION, stages: {}, ...options };
+  }
+
+  // Applies to frames captured from now on
+  setRedaction(redaction: RedactionPolicy): void {
+    this.options.redaction = redaction;
+  }
+
+  get isRecording(): boolean {
+    return this.unsubscribers.length > 0;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  start(): void {
+    if (this.isRecording) return;
+    if (!canStoreFrames(this.options.redaction)) {
+      throw new Error(STRICT_WITHOUT_RULES);
+    }
+    this.frames = [];
+    this.pending.clear();
+    this.pipeline = describePipeline(this.engine, this.options.stages);
+    const { groundPlane } = this.options.stages;
+
+    this.unsubscribers = [
+      this.engine.on('frame', ({ input, frame }) => {
+        // The policy may have changed since start
+        if (!canStoreFrames(this.options.redaction) || this.frames.length + this.pending.size >= this.options.maxFrames) return;
+        this.pending.set(frame.timestamp, {
+          index: this.frames.length + this.pending.size,
+          timestamp: frame.timestamp,
+          width: frame.width,
+          height: frame.height,
+          pitch: groundPlane?.getOptions().enabled ? groundPlane.getPitch() ?? undefined : undefined,
+          canvas: captureFrame(input, frame.width, frame.height),
+        });
+      }),
+      this.engine.on('result', result => {
+        const captured = this.pending.get(result.frame.timestamp);
+        if (!captured) return;
+        this.pending.delete(result.frame.timestamp);
+
+        const { canvas, ...info } = captured;
+        applyRedaction(canvas, result, this.options.redaction, this.engine);
+        this.frames.push({ ...info, image: canvas.toDataURL('image/jpeg', this.options.quality), detections: result.detections });
+      }),
+      // Frames whose inference failed are dropped
+      this.engine.on('error', () => this.pending.clear()),
+    ];
+  }
+
+  stop(): SessionRecording {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.pending.clear();
+
+    return {
+      version: 2,
+      model: this.engine.getModel()?.name ?? 'unknown',
+      createdAt: new Date().toISOString(),
+      pipeline: this.pipeline ?? describePipeline(this.engine, this.options.stages),
+      frames: this.frames,
+    };
+  }
+}
+
+export const downloadRecording = (recording: SessionRecording, filename = `session-${Date.now()}.json`): void => {
+  downloadBlob(new Blob([JSON.stringify(recording)], { type: 'application/json' }), filename);
+};
+
+// Capture the engine's next frame, redact it with that frame's detections and encode it as JPEG
+export const captureSnapshot = (engine: DetectionEngine, redaction: RedactionPolicy = EMPTY_REDACTION, quality = 0.9): Promise<Blob> => {
+  if (engine.getState() !== 'running') {
+    return Promise.reject(new Error('Start detection to take a snapshot'));
+  }
+  if (!canStoreFrames(redaction)) {
+    return Promise.reject(new Error(STRICT_WITHOUT_RULES));
+  }
+
+  return new Promise((resolve, reject) => {
+    // Pixels are copied when the frame enters the pipeline, since the video moves on during inference
+    let pending: { timestamp: number; canvas: HTMLCanvasElement } | null = null;
+
+    const unsubscribers = [
+      engine.on('frame', ({ input, frame }) => {
+        if (pending) return;
+        try {
+          pending = { timestamp: frame.timestamp, canvas: captureFrame(input, frame.width, frame.height) };
+        } catch (error) {
+          finish();
+          reject(error);
+        }
+      }),
+      engine.on('result', result => {
+        if (!pending || pending.timestamp !== result.frame.timestamp) return;
+        const { canvas } = pending;
+        finish();
+        applyRedaction(canvas, result, redaction, engine);
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the snapshot'))), 'image/jpeg', quality);
+      }),
+      // Retry on the next frame when inference fails
+      engine.on('error', () => {
+        pending = null;
+      }),
+      engine.on('state', state => {
+        if (state !== 'idle') return;
+        finish();
+        reject(new Error('Detection stopped before a frame was captured'));
+      }),
+    ];
+    const finish = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  });
+};
+
+export const downloadSnapshot = (blob: Blob, filename = `snapshot-${Date.now()}.jpg`): void => {
+  downloadBlob(blob, filename);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { canStoreFrames, getRedactionBoxes, type RedactionPolicy } from './redaction';
+import type { Detection, Prediction } from './types';
+
+const person: Detection = { id: 'person-1', class: 'person', bbox: [100, 100, 50, 150], score: 0.9, distance: 3, direction: 'Center' };
+const faint: Prediction = { class: 'person', bbox: [300, 100, 50, 150], score: 0.15 };
+const car: Prediction = { class: 'car', bbox: [0, 300, 200, 100], score: 0.2 };
+
+const policy = (strict: boolean): RedactionPolicy => ({ strict, rules: { person: { mode: 'blur', region: 'box' } } });
+
+describe('getRedactionBoxes', () => {
+  const threshold = () => 0.5;
+  const raw: Prediction = { class: 'person', bbox: [104, 102, 50, 150], score: 0.9 };
+
+  it('hides raw boxes of redacted classes above the display threshold', () => {
+    expect(getRedactionBoxes(policy(false), [person], [raw, faint, car], threshold)).toEqual([{ bbox: raw.bbox, mode: 'blur' }]);
+  });
+
+  it('hides a person present only in the raw predictions, e.g. before tracking confirms them', () => {
+    const newcomer: Prediction = { class: 'person', bbox: [400, 50, 60, 180], score: 0.7 };
+    expect(getRedactionBoxes(policy(false), [], [newcomer], threshold).map(box => box.bbox)).toEqual([newcomer.bbox]);
+  });
+
+  it('ignores held or lagging tracked boxes', () => {
+    expect(getRedactionBoxes(policy(false), [person], [], threshold)).toEqual([]);
+  });
+
+  it('also hides low-score raw boxes in strict mode', () => {
+    expect(getRedactionBoxes(policy(true), [person], [raw, faint, car], threshold).map(box => box.bbox)).toEqual([raw.bbox, faint.bbox]);
+  });
+
+  it('narrows people to the head, using the pose of the overlapping detection', () => {
+    const headPolicy: RedactionPolicy = { strict: false, rules: { person: { mode: 'pixelate', region: 'head' } } };
+    const [{ bbox: fallback }] = getRedactionBoxes(headPolicy, [], [raw], threshold);
+    expect(fallback[1]).toBe(raw.bbox[1]);
+    expect(fallback[3]).toBeLessThan(raw.bbox[3] / 2);
+
+    const keypoints = [
+      { name: 'left_eye', x: 120, y: 130, score: 0.9 },
+      { name: 'right_eye', x: 130, y: 130, score: 0.9 },
+    ];
+    const posed = { ...person, pose: { keypoints, posture: 'standing' as const, score: 0.9 } };
+    const [{ bbox }] = getRedactionBoxes(headPolicy, [posed], [raw], threshold);
+    expect(bbox[0] + bbox[2] / 2).toBeCloseTo(125);
+    expect(bbox[1] + bbox[3] / 2).toBeCloseTo(130);
+  });
+});
+
+describe('canStoreFrames', () => {
+  it('refuses strict policies without rules', () => {
+    expect(canStoreFrames({ strict: true, rules: {} })).toBe(false);
+    expect(canStoreFrames({ strict: false, rules: {} })).toBe(true);
+    expect(canStoreFrames(policy(true))).toBe(true);
+  });
+});
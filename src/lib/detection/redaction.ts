@@ -0,0 +1,150 @@
+import { iou } from './geometry';
+import type { BBox, Detection, FrameResult, Prediction } from './types';
+
+export type RedactionMode = 'blur' | 'pixelate';
+
+// 'head' narrows person boxes to the head, from pose keypoints when available
+export type RedactionRegion = 'box' | 'head';
+
+export interface RedactionRule {
+  mode: RedactionMode;
+  region: RedactionRegion;
+}
+
+export interface RedactionPolicy {
+  rules: Record<string, RedactionRule>;  // Keyed by detector class
+  strict: boolean;  // Never store unredacted frames: also redact low-score and filtered-out boxes of the redacted classes
+}
+
+// Score a raw box of the class needs to be shown, i.e. the global or per-class threshold
+export type ScoreThreshold = (className: string) => number;
+
+export const EMPTY_REDACTION: RedactionPolicy = { rules: {}, strict: false };
+
+export const hasRedaction = (policy: RedactionPolicy): boolean => Object.keys(policy.rules).length > 0;
+
+// A strict policy without rules cannot tell what to hide, so no frame may be stored
+export const canStoreFrames = (policy: RedactionPolicy): boolean => !policy.strict || hasRedaction(policy);
+
+// Strict policies ask the detector for raw boxes down to this score, far below any display threshold
+export const STRICT_MIN_SCORE = 0.1;
+
+const HEAD_KEYPOINTS = new Set(['nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear']);
+const MIN_KEYPOINT_SCORE = 0.3;
+
+// Raw boxes borrow the pose of the tracked detection covering the same person
+const MIN_POSE_OVERLAP = 0.3;
+
+// Head box from pose keypoints, or the top of the person box when there is no pose
+const getHeadBox = (bbox: BBox, pose?: Detection['pose']): BBox => {
+  const points = pose
+    ? pose.keypoints.filter(keypoint => HEAD_KEYPOINTS.has(keypoint.name) && keypoint.score >= MIN_KEYPOINT_SCORE)
+    : [];
+  const [x, y, width, height] = bbox;
+
+  if (points.length >= 2) {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const cx = (Math.min(...xs) + Math.max(...xs)) / 2;
+    const cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+    // Ears and eyes only span part of the head, so pad generously
+    const side = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) * 2;
+    return [cx - side / 2, cy - side / 2, side, side];
+  }
+
+  const side = Math.min(width * 0.6, height * 0.3);
+  return [x + (width - side) / 2, y, side, side];
+};
+
+const findPose = (bbox: BBox, detections: Detection[]): Detection['pose'] => {
+  let best: Detection | null = null;
+  let bestOverlap = MIN_POSE_OVERLAP;
+  detections.forEach(detection => {
+    const overlap = iou(bbox, detection.bbox);
+    if (detection.pose && overlap >= bestOverlap) {
+      best = detection;
+      bestOverlap = overlap;
+    }
+  });
+  return best?.pose;
+};
+
+// Regions of the frame the policy hides, in frame pixels. Boxes come from the frame's raw predictions,
+// since tracked detections lag behind, appear only once confirmed and are held after objects leave;
+// strict policies take every raw box, others those above the display threshold.
+export const getRedactionBoxes = (
+  policy: RedactionPolicy,
+  detections: Detection[],
+  predictions: Prediction[],
+  threshold: ScoreThreshold = () => 0,
+): { bbox: BBox; mode: RedactionMode }[] =>
+  predictions.flatMap(prediction => {
+    const rule = policy.rules[prediction.class];
+    if (!rule || (!policy.strict && prediction.score <= threshold(prediction.class))) return [];
+    const bbox = rule.region === 'head' && prediction.class === 'person'
+      ? getHeadBox(prediction.bbox, findPose(prediction.bbox, detections))
+      : prediction.bbox;
+    return [{ bbox, mode: rule.mode }];
+  });
+
+const clampBox = ([x, y, width, height]: BBox, canvas: HTMLCanvasElement): BBox => {
+  const left = Math.max(0, Math.floor(x));
+  const top = Math.max(0, Math.floor(y));
+  const right = Math.min(canvas.width, Math.ceil(x + width));
+  const bottom = Math.min(canvas.height, Math.ceil(y + height));
+  return [left, top, right - left, bottom - top];
+};
+
+// Scale the region down to coarse blocks and back up without smoothing
+const pixelate = (ctx: CanvasRenderingContext2D, [x, y, width, height]: BBox): void => {
+  const block = Math.max(8, Math.round(Math.max(width, height) / 12));
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(width / block));
+  small.height = Math.max(1, Math.ceil(height / block));
+  small.getContext('2d').drawImage(ctx.canvas, x, y, width, height, 0, 0, small.width, small.height);
+
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, x, y, width, height);
+  ctx.imageSmoothingEnabled = true;
+};
+
+// Canvas filters are missing in some browsers (older Safari); pixelation is used there instead
+const blur = (ctx: CanvasRenderingContext2D, [x, y, width, height]: BBox): void => {
+  if (!('filter' in ctx)) {
+    pixelate(ctx, [x, y, width, height]);
+    return;
+  }
+  const radius = Math.max(8, Math.round(Math.max(width, height) / 8));
+  // Copy a margin around the box so the blur has real pixels to sample at its edges
+  const [left, top, sourceWidth, sourceHeight] = clampBox([x - radius * 2, y - radius * 2, width + radius * 4, height + radius * 4], ctx.canvas);
+  const region = document.createElement('canvas');
+  region.width = sourceWidth;
+  region.height = sourceHeight;
+  region.getContext('2d').drawImage(ctx.canvas, left, top, sourceWidth, sourceHeight, 0, 0, sourceWidth, sourceHeight);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  // Blurred edges are partly transparent; an opaque base keeps the original from showing through
+  ctx.fillStyle = '#000';
+  ctx.fillRect(x, y, width, height);
+  ctx.filter = `blur(${radius}px)`;
+  ctx.drawImage(region, left, top);
+  ctx.restore();
+};
+
+// Redact a frame already drawn on ctx.canvas in place
+export const redactFrame = (
+  ctx: CanvasRenderingContext2D,
+  result: Pick<FrameResult, 'detections' | 'predictions'>,
+  policy: RedactionPolicy,
+  threshold?: ScoreThreshold,
+): void => {
+  getRedactionBoxes(policy, result.detections, result.predictions, threshold).forEach(({ bbox, mode }) => {
+    const box = clampBox(bbox, ctx.canvas);
+    if (box[2] <= 0 || box[3] <= 0) return;
+    if (mode === 'blur') blur(ctx, box);
+    else pixelate(ctx, box);
+  });
+};
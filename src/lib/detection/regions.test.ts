@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { filterByRegions, isInRegions, pointInPolygon, type RegionConfig } from './regions';
+import type { BBox, FrameInfo, Prediction } from './types';
+
+const frame: FrameInfo = { width: 100, height: 100, timestamp: 0 };
+const leftHalf: [number, number][] = [[0, 0], [0.5, 0], [0.5, 1], [0, 1]];
+const topLeft: [number, number][] = [[0, 0], [0.5, 0], [0.5, 0.5], [0, 0.5]];
+
+const prediction = (bbox: BBox): Prediction => ({ class: 'person', bbox, score: 0.9 });
+
+describe('pointInPolygon', () => {
+  it('handles concave polygons', () => {
+    const lShape: [number, number][] = [[0, 0], [1, 0], [1, 0.4], [0.4, 0.4], [0.4, 1], [0, 1]];
+    expect(pointInPolygon([0.2, 0.8], lShape)).toBe(true);
+    expect(pointInPolygon([0.8, 0.8], lShape)).toBe(false);
+  });
+});
+
+describe('isInRegions', () => {
+  it('requires an include zone when one exists', () => {
+    const config: RegionConfig = { anchor: 'center', regions: [{ id: 'a', kind: 'include', points: leftHalf }] };
+    expect(isInRegions([10, 10, 20, 20], config, frame)).toBe(true);
+    expect(isInRegions([70, 10, 20, 20], config, frame)).toBe(false);
+  });
+
+  it('rejects boxes inside an exclude zone, even within an include zone', () => {
+    const config: RegionConfig = {
+      anchor: 'center',
+      regions: [
+        { id: 'a', kind: 'include', points: leftHalf },
+        { id: 'b', kind: 'exclude', points: topLeft },
+      ],
+    };
+    expect(isInRegions([10, 10, 20, 20], config, frame)).toBe(false);
+    expect(isInRegions([10, 60, 20, 20], config, frame)).toBe(true);
+  });
+
+  it('tests the foot or the center of the box depending on the anchor', () => {
+    const regions: RegionConfig['regions'] = [{ id: 'b', kind: 'exclude', points: topLeft }];
+    // Center at y=0.4, foot at y=0.7
+    const bbox: BBox = [10, 10, 20, 60];
+    expect(isInRegions(bbox, { anchor: 'center', regions }, frame)).toBe(false);
+    expect(isInRegions(bbox, { anchor: 'foot', regions }, frame)).toBe(true);
+  });
+
+  it('ignores zones with fewer than three points', () => {
+    const config: RegionConfig = { anchor: 'center', regions: [{ id: 'a', kind: 'include', points: [[0, 0], [0.1, 0.1]] }] };
+    expect(isInRegions([70, 70, 20, 20], config, frame)).toBe(true);
+  });
+});
+
+describe('filterByRegions', () => {
+  it('keeps every item without zones', () => {
+    const items = [prediction([70, 70, 20, 20])];
+    expect(filterByRegions(items, { anchor: 'foot', regions: [] }, frame)).toBe(items);
+  });
+
+  it('drops items outside the zones', () => {
+    const config: RegionConfig = { anchor: 'center', regions: [{ id: 'a', kind: 'include', points: leftHalf }] };
+    const inside = prediction([10, 10, 20, 20]);
+    expect(filterByRegions([inside, prediction([70, 10, 20, 20])], config, frame)).toEqual([inside]);
+  });
+});
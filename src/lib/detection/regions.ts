@@ -0,0 +1,58 @@
+import type { BBox, FrameInfo, Prediction } from './types';
+
+// Polygon vertex in normalized frame coordinates (0..1), so zones survive resolution changes
+export type Point = [number, number];
+
+export type RegionKind = 'include' | 'exclude';
+
+export interface Region {
+  id: string;
+  kind: RegionKind;
+  points: Point[];
+}
+
+// Which point of a box must fall inside a zone: bottom-center suits things standing on the floor
+export type RegionAnchor = 'foot' | 'center';
+
+export interface RegionConfig {
+  regions: Region[];
+  anchor: RegionAnchor;
+}
+
+export const EMPTY_REGION_CONFIG: RegionConfig = {
+  regions: [],
+  anchor: 'foot',
+};
+
+// Ray casting point-in-polygon test
+export const pointInPolygon = ([x, y]: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const getAnchorPoint = ([x, y, width, height]: BBox, anchor: RegionAnchor, frame: Pick<FrameInfo, 'width' | 'height'>): Point => [
+  (x + width / 2) / frame.width,
+  (anchor === 'foot' ? y + height : y + height / 2) / frame.height,
+];
+
+// Inside at least one include zone (when any exist) and outside every exclude zone
+export const isInRegions = (bbox: BBox, config: RegionConfig, frame: Pick<FrameInfo, 'width' | 'height'>): boolean => {
+  const point = getAnchorPoint(bbox, config.anchor, frame);
+  const closed = config.regions.filter(region => region.points.length >= 3);
+  const includes = closed.filter(region => region.kind === 'include');
+
+  if (includes.length > 0 && !includes.some(region => pointInPolygon(point, region.points))) {
+    return false;
+  }
+  return !closed.some(region => region.kind === 'exclude' && pointInPolygon(point, region.points));
+};
+
+export const filterByRegions = <T extends Prediction>(items: T[], config: RegionConfig, frame: FrameInfo): T[] =>
+  config.regions.length === 0 ? items : items.filter(item => isInRegions(item.bbox, config, frame));
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheGraphModel } from './model-cache';
+import { loadCocoSsdModel } from './model';
+import { loadModel } from './registry';
+
+vi.mock('./model-cache', () => ({ cacheGraphModel: vi.fn() }));
+vi.mock('./backends', () => ({ benchmarkBackends: vi.fn(), getFastestBackend: vi.fn() }));
+vi.mock('./model', () => ({
+  COCO_SSD_CDN_URLS: { lite_mobilenet_v2: 'https://cdn.example/lite/model.json' },
+  initBackend: vi.fn(),
+  loadCocoSsdModel: vi.fn(async ({ modelUrl }) => ({ name: modelUrl, detect: async () => [] })),
+}));
+
+const SELF_HOSTED = '/models/coco-ssd/lite_mobilenet_v2/model.json';
+
+describe('coco-ssd loader', () => {
+  beforeEach(() => {
+    vi.mocked(cacheGraphModel).mockReset();
+    vi.mocked(loadCocoSsdModel).mockClear();
+  });
+
+  it('loads the self-hosted weights when they are served', async () => {
+    vi.mocked(cacheGraphModel).mockResolvedValue('indexeddb://coco-ssd/lite_mobilenet_v2');
+    await loadModel({ type: 'coco-ssd', base: 'lite_mobilenet_v2' }, undefined, { backend: 'webgl' });
+
+    expect(cacheGraphModel).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(cacheGraphModel).mock.calls[0][0]).toBe(SELF_HOSTED);
+    expect(loadCocoSsdModel).toHaveBeenCalledWith({ base: 'lite_mobilenet_v2', modelUrl: 'indexeddb://coco-ssd/lite_mobilenet_v2' }, undefined);
+  });
+
+  it('falls back to the CDN under the same cache key when the self-hosted copy is missing', async () => {
+    vi.mocked(cacheGraphModel)
+      .mockRejectedValueOnce(new Error('404'))
+      .mockResolvedValueOnce('indexeddb://coco-ssd/lite_mobilenet_v2');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await loadModel({ type: 'coco-ssd', base: 'lite_mobilenet_v2' }, undefined, { backend: 'webgl' });
+
+    const [[firstUrl, firstKey], [secondUrl, secondKey]] = vi.mocked(cacheGraphModel).mock.calls;
+    expect(firstUrl).toBe(SELF_HOSTED);
+    expect(secondUrl).toBe('https://cdn.example/lite/model.json');
+    expect(secondKey).toBe(firstKey);
+    expect(loadCocoSsdModel).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not fall back for an explicit model URL', async () => {
+    vi.mocked(cacheGraphModel).mockRejectedValue(new Error('404'));
+    await expect(loadModel({ type: 'coco-ssd', modelUrl: 'https://models.example/model.json' }, undefined, { backend: 'webgl' }))
+      .rejects.toThrow('404');
+    expect(cacheGraphModel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+import type { ObjectDetectionBaseModel } from '@tensorflow-models/coco-ssd';
+import { benchmarkBackends, getFastestBackend, type BackendBenchmark, type BackendPreference } from './backends';
+import { loadGraphModel, type GraphModelSpec } from './graph-model';
+import { cacheGraphModel, type ProgressCallback } from './model-cache';
+import { COCO_SSD_CDN_URLS, initBackend, loadCocoSsdModel } from './model';
+import type { DetectionModel } from './types';
+
+export interface CocoSsdSpec {
+  type: 'coco-ssd';
+  base?: ObjectDetectionBaseModel;
+  modelUrl?: string;
+}
+
+// Extend through declaration merging to register additional model types
+export interface ModelSpecMap {
+  'coco-ssd': CocoSsdSpec;
+  graph: GraphModelSpec;
+}
+
+export type ModelSpec = ModelSpecMap[keyof ModelSpecMap];
+
+type StatusCallback = (status: string) => void;
+
+export interface LoadModelOptions {
+  backend?: BackendPreference;  // 'auto' benchmarks all backends first (default)
+  onBenchmark?: (results: BackendBenchmark[]) => void;
+  onProgress?: ProgressCallback;  // Download progress (0..1) when the weights are not cached yet
+}
+
+export type ModelLoader<S extends ModelSpec> = (spec: S, onStatus?: StatusCallback, onProgress?: ProgressCallback) => Promise<DetectionModel>;
+
+export const COCO_SSD_BASES: ObjectDetectionBaseModel[] = ['lite_mobilenet_v2', 'mobilenet_v1', 'mobilenet_v2'];
+
+export const DEFAULT_MODEL: ModelSpec = { type: 'coco-ssd', base: 'lite_mobilenet_v2' };
+
+const loaders: { [K in keyof ModelSpecMap]?: ModelLoader<ModelSpecMap[K]> } = {};
+
+export const registerModelLoader = <K extends keyof ModelSpecMap>(type: K, loader: ModelLoader<ModelSpecMap[K]>): void => {
+  loaders[type] = loader as (typeof loaders)[K];
+};
+
+// Initialize the backend (benchmarking them all for 'auto') and load whichever model the spec describes
+export const loadModel = async (spec: ModelSpec = DEFAULT_MODEL, onStatus?: StatusCallback, options: LoadModelOptions = {}): Promise<DetectionModel> => {
+  const loader = loaders[spec.type] as ModelLoader<ModelSpec> | undefined;
+  if (!loader) {
+    throw new Error(`No loader registered for model type "${spec.type}"`);
+  }
+
+  const { backend = 'auto', onBenchmark, onProgress } = options;
+  let backends = [backend, 'cpu'];
+  if (backend === 'auto') {
+    await initBackend(onStatus);
+    const results = await benchmarkBackends(() => loader(spec, onStatus, onProgress), onStatus);
+    onBenchmark?.(results);
+    backends = [getFastestBackend(results) ?? 'webgl', 'cpu'];
+  }
+
+  await initBackend(onStatus, backends);
+  return loader(spec, onStatus, onProgress);
+};
+
+// Weights served from public/models by `npm run fetch:models`
+export const getSelfHostedModelUrl = (base: ObjectDetectionBaseModel): string =>
+  `${import.meta.env.BASE_URL}models/coco-ssd/${base}/model.json`;
+
+registerModelLoader('coco-ssd', async (spec, onStatus, onProgress) => {
+  const base = spec.base ?? 'lite_mobilenet_v2';
+  const cacheKey = `coco-ssd/${spec.modelUrl ?? base}`;
+  let modelUrl: string;
+  try {
+    modelUrl = await cacheGraphModel(spec.modelUrl ?? getSelfHostedModelUrl(base), cacheKey, onStatus, onProgress);
+  } catch (error) {
+    if (spec.modelUrl) throw error;
+    // Builds made without fetching the weights have no self-hosted copy
+    console.warn('Self-hosted model unavailable, downloading from the CDN:', error);
+    modelUrl = await cacheGraphModel(COCO_SSD_CDN_URLS[base], cacheKey, onStatus, onProgress);
+  }
+  return loadCocoSsdModel({ base, modelUrl }, onStatus);
+});
+
+registerModelLoader('graph', (spec, onStatus) => {
+  onStatus?.(`Loading ${spec.name ?? 'custom'} model...`);
+  return loadGraphModel(spec);
+});
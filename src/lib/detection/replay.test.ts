@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { estimateDistance } from './distance';
+import { DetectionEngine } from './engine';
+import type { SessionRecording } from './recording';
+import { describeIssue, diffDetections, replaySession } from './replay';
+import type { BBox, Detection, FrameInput, Prediction } from './types';
+
+const detection = (cls: string, bbox: BBox, distance = 3): Detection => ({
+  id: `${cls}-1`, class: cls, bbox, score: 0.9, distance, direction: 'Center',
+});
+
+describe('diffDetections', () => {
+  it('accepts matching detections within the tolerances', () => {
+    const expected = [detection('person', [100, 100, 50, 150], 3)];
+    const actual = [detection('person', [102, 100, 50, 150], 3.3)];
+    expect(diffDetections(expected, actual)).toEqual([]);
+  });
+
+  it('reports missing and extra detections', () => {
+    const missing = detection('person', [100, 100, 50, 150]);
+    const extra = detection('dog', [400, 300, 80, 60]);
+    expect(diffDetections([missing], [extra]).map(describeIssue)).toEqual(['missing person', 'extra dog']);
+  });
+
+  it('reports moved boxes, class changes and distance drift', () => {
+    const expected = [detection('dog', [100, 100, 100, 100], 3)];
+    const actual = [detection('cat', [150, 100, 100, 100], 4)];
+    expect(diffDetections(expected, actual).map(issue => issue.kind)).toEqual(['moved', 'class', 'distance']);
+    expect(diffDetections(expected, actual, { minIoU: 0.3, allowClassChange: true, maxDistanceDelta: 1 })).toEqual([]);
+  });
+
+  it('pairs each detection with its best overlap', () => {
+    const left = detection('person', [0, 0, 100, 100]);
+    const right = detection('person', [80, 0, 100, 100]);
+    expect(diffDetections([left, right], [right, left])).toEqual([]);
+  });
+});
+
+describe('replaySession', () => {
+  it('replays with the recorded pipeline settings', async () => {
+    const predictions: Prediction[] = [{ class: 'person', bbox: [100, 100, 50, 150], score: 0.3 }];
+    const recorded = detection('person', [100, 100, 50, 150], estimateDistance([100, 100, 50, 150], 'person'));
+    const recording: SessionRecording = {
+      version: 2,
+      model: 'fake',
+      createdAt: '',
+      pipeline: { engine: { minScore: 0.2, detectorMinScore: 0.2 } },
+      frames: [{ index: 0, timestamp: 0, width: 640, height: 480, image: '', detections: [recorded] }],
+    };
+    const model = { name: 'fake', detect: async () => predictions };
+    const input = { width: 640, height: 480 } as unknown as FrameInput;
+
+    const defaults = await replaySession(recording, new DetectionEngine({ model }), async () => input);
+    expect(defaults.passed).toBe(false);
+
+    const recordedSettings = await replaySession(recording, new DetectionEngine({ ...recording.pipeline.engine, model }), async () => input);
+    expect(recordedSettings.passed).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { iou } from './geometry';
+import type { DetectionEngine } from './engine';
+import type { RecordedFrame, SessionRecording } from './recording';
+import type { Detection, FrameInput } from './types';
+
+export interface ReplayTolerances {
+  minIoU?: number;            // Boxes overlapping less than this count as moved
+  maxDistanceDelta?: number;  // Meters the distance estimate may drift
+  allowClassChange?: boolean; // Whether a matched box may change label
+}
+
+const DEFAULT_TOLERANCES: Required<ReplayTolerances> = {
+  minIoU: 0.5,
+  maxDistanceDelta: 0.5,
+  allowClassChange: false,
+};
+
+export type ReplayIssue =
+  | { kind: 'missing'; expected: Detection }
+  | { kind: 'extra'; actual: Detection }
+  | { kind: 'moved'; expected: Detection; actual: Detection; iou: number }
+  | { kind: 'distance'; expected: Detection; actual: Detection; delta: number }
+  | { kind: 'class'; expected: Detection; actual: Detection };
+
+export interface FrameDiff {
+  index: number;
+  timestamp: number;
+  issues: ReplayIssue[];
+}
+
+export interface ReplayReport {
+  frames: number;
+  failedFrames: FrameDiff[];
+  passed: boolean;
+}
+
+// Pair expected and actual detections by best IoU, then check each pair against the tolerances
+export const diffDetections = (
+  expected: Detection[],
+  actual: Detection[],
+  tolerances: ReplayTolerances = {},
+): ReplayIssue[] => {
+  const { minIoU, maxDistanceDelta, allowClassChange } = { ...DEFAULT_TOLERANCES, ...tolerances };
+
+  const pairs: { e: number; a: number; overlap: number }[] = [];
+  expected.forEach((expectedDetection, e) => {
+    actual.forEach((actualDetection, a) => {
+      const overlap = iou(expectedDetection.bbox, actualDetection.bbox);
+      if (overlap > 0) pairs.push({ e, a, overlap });
+    });
+  });
+  pairs.sort((x, y) => y.overlap - x.overlap);
+
+  const matchedExpected = new Map<number, { a: number; overlap: number }>();
+  const matchedActual = new Set<number>();
+  for (const { e, a, overlap } of pairs) {
+    if (matchedExpected.has(e) || matchedActual.has(a)) continue;
+    matchedExpected.set(e, { a, overlap });
+    matchedActual.add(a);
+  }
+
+  const issues: ReplayIssue[] = [];
+  expected.forEach((expectedDetection, e) => {
+    const match = matchedExpected.get(e);
+    if (!match) {
+      issues.push({ kind: 'missing', expected: expectedDetection });
+      return;
+    }
+
+    const actualDetection = actual[match.a];
+    if (match.overlap < minIoU) {
+      issues.push({ kind: 'moved', expected: expectedDetection, actual: actualDetection, iou: match.overlap });
+    }
+    if (!allowClassChange && expectedDetection.class !== actualDetection.class) {
+      issues.push({ kind: 'class', expected: expectedDetection, actual: actualDetection });
+    }
+    const delta = Math.abs(expectedDetection.distance - actualDetection.distance);
+    if (delta > maxDistanceDelta) {
+      issues.push({ kind: 'distance', expected: expectedDetection, actual: actualDetection, delta });
+    }
+  });
+  actual.forEach((actualDetection, a) => {
+    if (!matchedActual.has(a)) issues.push({ kind: 'extra', actual: actualDetection });
+  });
+
+  return issues;
+};
+
+// Feed every recorded frame through the engine at its original timestamp and diff the output
+export const replaySession = async (
+  recording: SessionRecording,
+  engine: DetectionEngine,
+  loadFrame: (frame: RecordedFrame) => Promise<FrameInput>,
+  tolerances: ReplayTolerances = {},
+): Promise<ReplayReport> => {
+  const failedFrames: FrameDiff[] = [];
+
+  for (const recorded of recording.frames) {
+    const input = await loadFrame(recorded);
+    const detections = await engine.processFrame(input, recorded.timestamp);
+    const issues = diffDetections(recorded.detections, detections, tolerances);
+    if (issues.length > 0) {
+      failedFrames.push({ index: recorded.index, timestamp: recorded.timestamp, issues });
+    }
+  }
+
+  return {
+    frames: recording.frames.length,
+    failedFrames,
+    passed: failedFrames.length === 0,
+  };
+};
+
+export const describeIssue = (issue: ReplayIssue): string => {
+  switch (issue.kind) {
+    case 'missing':
+      return `missing ${issue.expected.class}`;
+    case 'extra':
+      return `extra ${issue.actual.class}`;
+    case 'moved':
+      return `${issue.expected.class} moved (IoU ${issue.iou.toFixed(2)})`;
+    case 'distance':
+      return `${issue.expected.class} distance ${issue.expected.distance.toFixed(2)}m -> ${issue.actual.distance.toFixed(2)}m`;
+    case 'class':
+      return `${issue.expected.class} became ${issue.actual.class}`;
+  }
+};
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AdaptiveScheduler, DEFAULT_SCHEDULER } from './scheduler';
+
+describe('AdaptiveScheduler', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('runs at the target rate while inference is fast', () => {
+    const scheduler = new AdaptiveScheduler({ ...DEFAULT_SCHEDULER, targetFps: 10, cpuBudget: 1 });
+    expect(scheduler.isDue(0)).toBe(true);
+
+    scheduler.record(0, 20);
+    expect(scheduler.getLatency()).toBe(20);
+    expect(scheduler.getDelay()).toBe(80);
+    expect(scheduler.isDue(99)).toBe(false);
+    expect(scheduler.isDue(100)).toBe(true);
+  });
+
+  it('slows down to keep inference within the CPU budget', () => {
+    const scheduler = new AdaptiveScheduler({ ...DEFAULT_SCHEDULER, targetFps: 30, cpuBudget: 0.5 });
+    scheduler.record(0, 200);
+    // 200 ms of inference needs 200 ms idle for a 50% share
+    expect(scheduler.getDelay()).toBe(200);
+    expect(scheduler.isDue(399)).toBe(false);
+    expect(scheduler.isDue(400)).toBe(true);
+  });
+
+  it('smooths latency and caps the delay', () => {
+    const scheduler = new AdaptiveScheduler({ ...DEFAULT_SCHEDULER, cpuBudget: 0.1, maxInterval: 500 });
+    scheduler.record(0, 100);
+    scheduler.record(1000, 1200);
+    expect(scheduler.getLatency()).toBeCloseTo(120);
+    expect(scheduler.getDelay()).toBe(500);
+  });
+
+  it('honours the minimum interval between starts', () => {
+    const scheduler = new AdaptiveScheduler({ ...DEFAULT_SCHEDULER, targetFps: 0, cpuBudget: 1, minInterval: 300 });
+    scheduler.record(0, 50);
+    expect(scheduler.getDelay()).toBe(250);
+    expect(scheduler.isDue(300)).toBe(true);
+  });
+
+  it('backs off while the page is hidden', () => {
+    vi.stubGlobal('document', { hidden: true });
+    const scheduler = new AdaptiveScheduler({ ...DEFAULT_SCHEDULER, hiddenInterval: 1500 });
+    scheduler.record(0, 20);
+    expect(scheduler.getDelay()).toBe(1500);
+  });
+
+  it('starts over after reset', () => {
+    const scheduler = new AdaptiveScheduler();
+    scheduler.record(0, 500);
+    scheduler.reset();
+    expect(scheduler.getLatency()).toBe(0);
+    expect(scheduler.isDue(0)).toBe(true);
+  });
+});
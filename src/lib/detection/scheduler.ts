@@ -0,0 +1,67 @@
+export interface SchedulerOptions {
+  targetFps: number;       // Desired detections per second
+  cpuBudget: number;       // Max share of wall time spent inferring (0..1)
+  minInterval: number;     // ms, floor between two detection starts
+  maxInterval: number;     // ms, ceiling when the budget forces a slowdown
+  hiddenInterval: number;  // ms between detections while the page is hidden
+}
+
+export const DEFAULT_SCHEDULER: SchedulerOptions = {
+  targetFps: 10,
+  cpuBudget: 0.6,
+  minInterval: 0,
+  maxInterval: 2000,
+  hiddenInterval: 2000,
+};
+
+// Weight of the newest latency sample
+const LATENCY_SMOOTHING = 0.2;
+
+// Adapts the detection cadence to measured inference latency
+export class AdaptiveScheduler {
+  private latency = 0;
+  private nextRunTime = 0;
+
+  constructor(private options: SchedulerOptions = DEFAULT_SCHEDULER) {}
+
+  setOptions(options: SchedulerOptions): void {
+    this.options = options;
+  }
+
+  // Smoothed inference latency in ms
+  getLatency(): number {
+    return this.latency;
+  }
+
+  reset(): void {
+    this.latency = 0;
+    this.nextRunTime = 0;
+  }
+
+  isDue(now: number): boolean {
+    return now >= this.nextRunTime;
+  }
+
+  // Record a finished inference and plan when the next one may start
+  record(startTime: number, endTime: number): void {
+    const sample = endTime - startTime;
+    this.latency = this.latency === 0 ? sample : this.latency + LATENCY_SMOOTHING * (sample - this.latency);
+    this.nextRunTime = startTime + this.latency + this.getDelay();
+  }
+
+  // Idle time to leave after an inference finishes
+  getDelay(): number {
+    const { targetFps, cpuBudget, minInterval, maxInterval, hiddenInterval } = this.options;
+    if (typeof document !== 'undefined' && document.hidden) {
+      return hiddenInterval;
+    }
+
+    // Start-to-start period for the target rate, minus the time inference already took
+    const fpsDelay = targetFps > 0 ? 1000 / targetFps - this.latency : 0;
+    // Keep latency / (latency + delay) at or below the budget
+    const budgetDelay = cpuBudget > 0 && cpuBudget < 1 ? (this.latency * (1 - cpuBudget)) / cpuBudget : 0;
+
+    const delay = Math.max(fpsDelay, budgetDelay, minInterval - this.latency, 0);
+    return Math.min(delay, maxInterval);
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIZES, getObjectSize, getSizeSpread, parseSizeDatabase } from './sizes';
+
+describe('parseSizeDatabase', () => {
+  it('fills in a missing confidence and source', () => {
+    expect(parseSizeDatabase('{"cat": {"height": 0.25, "width": 0.4}}')).toEqual({
+      cat: { height: 0.25, width: 0.4, confidence: 'medium', source: '' },
+    });
+  });
+
+  it('keeps an explicit spread', () => {
+    const sizes = parseSizeDatabase('{"dog": {"height": 0.5, "width": 0.7, "confidence": "low", "spread": 0.5}}');
+    expect(getSizeSpread(sizes.dog)).toBe(0.5);
+  });
+
+  it('round-trips the default database', () => {
+    expect(parseSizeDatabase(JSON.stringify(DEFAULT_SIZES))).toEqual(DEFAULT_SIZES);
+  });
+
+  it.each([
+    ['[]', /object keyed by class name/],
+    ['null', /object keyed by class name/],
+    ['{"cat": {"height": 0, "width": 0.4}}', /"cat" needs a positive height and width/],
+    ['{"cat": {"height": "0.3", "width": 0.4}}', /"cat" needs a positive height and width/],
+    ['{"cat": null}', /"cat" needs a positive height and width/],
+    ['{"cat": {"height": 0.3, "width": 0.4, "confidence": "sure"}}', /unknown confidence "sure"/],
+    ['{"cat": {"height": 0.3, "width": 0.4, "spread": -1}}', /non-negative spread/],
+  ])('rejects %s', (json, message) => {
+    expect(() => parseSizeDatabase(json)).toThrow(message);
+  });
+
+  it('throws on invalid JSON', () => {
+    expect(() => parseSizeDatabase('{')).toThrow(SyntaxError);
+  });
+});
+
+describe('getObjectSize', () => {
+  it('falls back to a low-confidence 1m size for unknown classes', () => {
+    expect(getObjectSize('unicorn')).toMatchObject({ height: 1, width: 1, confidence: 'low' });
+  });
+});
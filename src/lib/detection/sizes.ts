@@ -0,0 +1,144 @@
+import { downloadBlob } from './download';
+
+export type SizeConfidence = 'high' | 'medium' | 'low';
+
+// Typical real-world size of a class in meters. Width is as seen from the most common viewpoint.
+export interface ObjectSize {
+  height: number;
+  width: number;
+  confidence: SizeConfidence;  // How well one number describes the class
+  source: string;              // Where the number comes from, or what it assumes
+  spread?: number;             // Relative standard deviation of real sizes; derived from confidence when omitted
+}
+
+// Keyed by detector class
+export type SizeDatabase = Record<string, ObjectSize>;
+
+const size = (height: number, width: number, confidence: SizeConfidence, source: string): ObjectSize => ({ height, width, confidence, source });
+
+// All 80 COCO classes
+export const DEFAULT_SIZES: SizeDatabase = {
+  'person': size(1.7, 0.45, 'high', 'Average adult standing height; shoulder width'),
+  'bicycle': size(1.5, 1.7, 'medium', 'Adult bicycle with rider clearance, seen from the side'),
+  'car': size(1.5, 1.8, 'high', 'Passenger car; width seen from front or rear'),
+  'motorcycle': size(1.5, 2.1, 'medium', 'Including rider clearance, seen from the side'),
+  'airplane': size(10.0, 35.0, 'low', 'Airliner; light aircraft are far smaller'),
+  'bus': size(3.0, 2.55, 'high', 'City bus; width seen from front or rear'),
+  'train': size(4.0, 3.0, 'medium', 'Rail car above the rails; width seen from the front'),
+  'truck': size(3.0, 2.5, 'medium', 'Box truck; pickups are lower'),
+  'boat': size(2.0, 6.0, 'low', 'Small motorboat; ranges from dinghies to ships'),
+  'traffic light': size(0.9, 0.35, 'medium', 'Three-lamp signal head without the pole'),
+  'fire hydrant': size(0.8, 0.4, 'high', 'Standard pillar hydrant'),
+  'stop sign': size(0.8, 0.8, 'high', 'Sign face, 750-900mm across depending on road type'),
+  'parking meter': size(1.5, 0.3, 'medium', 'Including the post'),
+  'bench': size(0.5, 1.5, 'medium', 'Seat height; benches with backrests reach 0.85m'),
+  'bird': size(0.2, 0.25, 'low', 'Pigeon-sized; species vary widely'),
+  'cat': size(0.3, 0.45, 'medium', 'Domestic cat standing, seen from the side'),
+  'dog': size(0.5, 0.7, 'low', 'Medium breed at the shoulder; breeds vary widely'),
+  'horse': size(1.6, 2.4, 'high', 'At the withers, seen from the side'),
+  'sheep': size(1.0, 1.2, 'medium', 'Including the head, seen from the side'),
+  'cow': size(1.4, 2.4, 'high', 'At the withers, seen from the side'),
+  'elephant': size(3.0, 5.0, 'medium', 'Adult African elephant at the shoulder'),
+  'bear': size(1.8, 1.5, 'low', 'Standing upright; on all fours about 1m'),
+  'zebra': size(1.4, 2.2, 'high', 'At the shoulder, seen from the side'),
+  'giraffe': size(4.0, 2.0, 'medium', 'Adult including the neck; males reach 5.5m'),
+  'backpack': size(0.5, 0.33, 'medium', 'Day pack'),
+  'umbrella': size(1.0, 1.0, 'low', 'Open hand-held umbrella; patio umbrellas are larger'),
+  'handbag': size(0.3, 0.35, 'low', 'Shoulder bag without the strap'),
+  'tie': size(0.5, 0.08, 'medium', 'Visible length when worn'),
+  'suitcase': size(0.65, 0.45, 'medium', 'Medium check-in suitcase standing upright'),
+  'frisbee': size(0.27, 0.27, 'high', 'Standard 27cm disc seen face-on'),
+  'skis': size(1.7, 0.15, 'medium', 'Adult pair held upright'),
+  'snowboard': size(1.55, 0.3, 'medium', 'Adult board held upright'),
+  'sports ball': size(0.22, 0.22, 'low', 'Football; tennis and golf balls are far smaller'),
+  'kite': size(1.0, 1.0, 'low', 'Hobby kite; sizes vary widely'),
+  'baseball bat': size(0.84, 0.07, 'high', 'Adult bat length held upright'),
+  'baseball glove': size(0.3, 0.25, 'medium', 'Adult fielding glove'),
+  'skateboard': size(0.1, 0.8, 'medium', 'Deck and wheels, seen from the side'),
+  'surfboard': size(2.0, 0.55, 'low', 'Shortboard held upright; longboards reach 3m'),
+  'tennis racket': size(0.69, 0.27, 'high', 'Regulation maximum length'),
+  'bottle': size(0.25, 0.08, 'medium', '500ml to 1l bottle'),
+  'wine glass': size(0.2, 0.08, 'medium', 'Standard stemmed glass'),
+  'cup': size(0.15, 0.09, 'medium', 'Tall mug; espresso cups are half this'),
+  'fork': size(0.19, 0.025, 'medium', 'Table fork'),
+  'knife': size(0.22, 0.025, 'medium', 'Table knife'),
+  'spoon': size(0.17, 0.04, 'medium', 'Dessert spoon'),
+  'bowl': size(0.1, 0.16, 'medium', 'Cereal bowl'),
+  'banana': size(0.2, 0.04, 'medium', 'Length of a single banana'),
+  'apple': size(0.08, 0.08, 'high', 'Medium apple'),
+  'sandwich': size(0.06, 0.12, 'low', 'Sliced bread sandwich seen from the side'),
+  'orange': size(0.08, 0.08, 'high', 'Medium orange'),
+  'broccoli': size(0.15, 0.12, 'low', 'Whole head'),
+  'carrot': size(0.18, 0.03, 'medium', 'Length of a whole carrot'),
+  'hot dog': size(0.05, 0.18, 'medium', 'In a bun, seen from the side'),
+  'pizza': size(0.03, 0.3, 'low', 'Whole pizza seen from the side'),
+  'donut': size(0.04, 0.09, 'medium', 'Ring donut seen from the side'),
+  'cake': size(0.1, 0.22, 'low', 'Round layer cake'),
+  'chair': size(0.9, 0.5, 'high', 'Dining chair including the backrest'),
+  'couch': size(0.85, 2.0, 'medium', 'Three-seater seen from the front'),
+  'potted plant': size(0.5, 0.35, 'low', 'Indoor plant including the pot'),
+  'bed': size(0.6, 1.6, 'medium', 'Queen bed to the top of the mattress, seen from the foot'),
+  'dining table': size(0.8, 1.5, 'high', 'Table top height; width of a four-seat table'),
+  'toilet': size(0.75, 0.4, 'high', 'Including the cistern'),
+  'tv': size(0.6, 1.0, 'medium', '43-inch screen; sizes vary widely'),
+  'laptop': size(0.3, 0.33, 'medium', '13-15 inch laptop open'),
+  'mouse': size(0.04, 0.06, 'medium', 'Desktop mouse seen from the front'),
+  'remote': size(0.03, 0.05, 'low', 'Lying flat, seen end-on; about 0.18m long'),
+  'keyboard': size(0.03, 0.44, 'medium', 'Full-size keyboard seen from the front'),
+  'cell phone': size(0.15, 0.075, 'high', 'Modern smartphone held upright'),
+  'microwave': size(0.3, 0.5, 'medium', 'Countertop microwave'),
+  'oven': size(0.9, 0.6, 'high', 'Freestanding range to counter height'),
+  'toaster': size(0.2, 0.28, 'medium', 'Two-slice toaster'),
+  'sink': size(0.2, 0.55, 'low', 'Basin only; cabinets add about 0.7m'),
+  'refrigerator': size(1.75, 0.7, 'high', 'Full-height fridge-freezer'),
+  'book': size(0.25, 0.17, 'medium', 'Paperback to hardback standing upright'),
+  'clock': size(0.3, 0.3, 'low', 'Wall clock; tower clocks are far larger'),
+  'vase': size(0.3, 0.15, 'low', 'Table vase'),
+  'scissors': size(0.2, 0.08, 'medium', 'Household scissors'),
+  'teddy bear': size(0.35, 0.25, 'low', 'Sitting medium-sized bear'),
+  'hair drier': size(0.25, 0.25, 'medium', 'Hand-held drier'),
+  'toothbrush': size(0.19, 0.02, 'medium', 'Manual toothbrush'),
+};
+
+// Classes not in the database are assumed to be 1m tall and wide
+export const FALLBACK_SIZE: ObjectSize = size(1.0, 1.0, 'low', 'Unknown class');
+
+export const getObjectSize = (className: string, sizes: SizeDatabase = DEFAULT_SIZES): ObjectSize =>
+  sizes[className] ?? FALLBACK_SIZE;
+
+// Sizes trusted enough to anchor other estimates, e.g. to calibrate a depth model
+export const hasReliableSize = (className: string, sizes: SizeDatabase = DEFAULT_SIZES): boolean =>
+  (sizes[className]?.confidence ?? 'low') !== 'low';
+
+const CONFIDENCE_SPREAD: Record<SizeConfidence, number> = { high: 0.1, medium: 0.2, low: 0.4 };
+
+export const getSizeSpread = (size: ObjectSize): number => size.spread ?? CONFIDENCE_SPREAD[size.confidence];
+
+const CONFIDENCES: SizeConfidence[] = ['high', 'medium', 'low'];
+
+// Validate an imported JSON database; throws on the first malformed entry
+export const parseSizeDatabase = (json: string): SizeDatabase => {
+  const data: unknown = JSON.parse(json);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Size database must be an object keyed by class name');
+  }
+
+  return Object.fromEntries(Object.entries(data).map(([name, entry]) => {
+    const { height, width, confidence = 'medium', source = '', spread } = (entry ?? {}) as Partial<ObjectSize>;
+    if (!(typeof height === 'number' && height > 0) || !(typeof width === 'number' && width > 0)) {
+      throw new Error(`"${name}" needs a positive height and width in meters`);
+    }
+    if (!CONFIDENCES.includes(confidence)) {
+      throw new Error(`"${name}" has an unknown confidence "${confidence}"`);
+    }
+    if (spread !== undefined && !(typeof spread === 'number' && spread >= 0)) {
+      throw new Error(`"${name}" needs a non-negative spread`);
+    }
+    const parsed = size(height, width, confidence, String(source));
+    return [name, spread === undefined ? parsed : { ...parsed, spread }];
+  }));
+};
+
+export const downloadSizeDatabase = (sizes: SizeDatabase, filename = 'object-sizes.json'): void => {
+  downloadBlob(new Blob([JSON.stringify(sizes, null, 2)], { type: 'application/json' }), filename);
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionSmoother } from './smoothing';
+import type { Detection, FrameInfo } from './types';
+
+const frame = (timestamp: number): FrameInfo => ({ width: 640, height: 480, timestamp });
+
+const person: Detection = {
+  id: 'person-1', class: 'person', bbox: [100, 100, 50, 100], score: 0.9, distance: 3, distanceStd: 0.3, direction: 'Center',
+};
+
+describe('DetectionSmoother', () => {
+  it('reports an object once it is seen in enterHits of the window', () => {
+    const smoother = new DetectionSmoother({ window: 5, enterHits: 3 });
+    const entered: string[] = [];
+    smoother.on('enter', detection => entered.push(detection.id));
+
+    expect(smoother.process([person], frame(0))).toHaveLength(0);
+    expect(smoother.process([], frame(100))).toHaveLength(0);
+    expect(smoother.process([person], frame(200))).toHaveLength(0);
+    expect(smoother.process([person], frame(300))).toHaveLength(1);
+    expect(entered).toEqual(['person-1']);
+  });
+
+  it('drops a flicker that never reaches enterHits', () => {
+    const smoother = new DetectionSmoother({ window: 3, enterHits: 2 });
+    smoother.process([person], frame(0));
+    for (let i = 1; i <= 3; i++) {
+      expect(smoother.process([], frame(i * 100))).toHaveLength(0);
+    }
+    expect(smoother.process([person], frame(400))).toHaveLength(0);
+  });
+
+  it('holds a confirmed object until exitMisses frames are missing', () => {
+    const smoother = new DetectionSmoother({ window: 5, enterHits: 1, exitMisses: 2 });
+    const exits: string[] = [];
+    smoother.on('exit', detection => exits.push(detection.id));
+
+    smoother.process([person], frame(0));
+    expect(smoother.process([], frame(100))).toHaveLength(1);
+    expect(exits).toEqual([]);
+    expect(smoother.process([], frame(200))).toHaveLength(0);
+    expect(exits).toEqual(['person-1']);
+  });
+
+  it('keeps the relative distance uncertainty of the raw estimate', () => {
+    const smoother = new DetectionSmoother({ enterHits: 1 });
+    smoother.process([person], frame(0));
+    const [smoothed] = smoother.process([{ ...person, distance: 4, distanceStd: 0.4 }], frame(100));
+    expect(smoothed.distance).toBeGreaterThan(3);
+    expect(smoothed.distance).toBeLessThan(4);
+    expect(smoothed.distanceStd! / smoothed.distance).toBeCloseTo(0.1);
+  });
+
+  it('passes detections through when disabled', () => {
+    const smoother = new DetectionSmoother({ enabled: false });
+    expect(smoother.process([person], frame(0))).toEqual([person]);
+  });
+});
@@ -0,0 +1,171 @@
+import { getDirection } from './distance';
+import { TypedEmitter } from './emitter';
+import type { BBox, Detection, FrameInfo } from './types';
+
+export interface SmoothingOptions {
+  enabled: boolean;
+  minCutoff: number;   // Hz; lower values steady still objects more
+  beta: number;        // Speed coefficient; higher values lag less behind moving objects
+  window: number;      // M: recent frames considered for presence
+  enterHits: number;   // N: frames of the window an object must appear in before it is reported
+  exitMisses: number;  // Frames of the window it must be missing from before it is gone
+}
+
+export const DEFAULT_SMOOTHING: SmoothingOptions = {
+  enabled: true,
+  minCutoff: 1,
+  beta: 1,
+  window: 5,
+  enterHits: 2,
+  exitMisses: 4,
+};
+
+export interface SmootherEvents {
+  enter: Detection;
+  exit: Detection;
+}
+
+// Cutoff (Hz) of the speed estimate that drives the adaptive cutoff
+const DERIVATIVE_CUTOFF = 1;
+
+const smoothingFactor = (cutoff: number, dt: number): number => {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+};
+
+// One-euro filter: heavy smoothing at low speed, little lag at high speed
+class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime = 0;
+
+  filter(value: number, timestamp: number, minCutoff: number, beta: number): number {
+    if (this.value === null) {
+      this.value = value;
+      this.lastTime = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.lastTime) / 1000;
+    if (dt <= 0) return this.value;
+
+    const derivative = (value - this.value) / dt;
+    this.derivative += smoothingFactor(DERIVATIVE_CUTOFF, dt) * (derivative - this.derivative);
+    const cutoff = minCutoff + beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+    this.lastTime = timestamp;
+    return this.value;
+  }
+}
+
+interface SmoothedTrack {
+  filters: OneEuroFilter[];  // x, y, width, height (normalized to the frame), distance
+  history: boolean[];        // Seen in each of the last `window` frames
+  confirmed: boolean;
+  detection: Detection;      // Latest smoothed output
+}
+
+const countSeen = (history: boolean[]): number => history.filter(Boolean).length;
+
+// Postprocessor that filters bbox and distance per track id and debounces presence with N-of-M
+// confirmation. Runs after the tracker so ids are stable across frames.
+export class DetectionSmoother extends TypedEmitter<SmootherEvents> {
+  private options: SmoothingOptions;
+  private tracks = new Map<string, SmoothedTrack>();
+
+  constructor(options: Partial<SmoothingOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_SMOOTHING, ...options };
+  }
+
+  getOptions(): Readonly<SmoothingOptions> {
+    return this.options;
+  }
+
+  setOptions(options: Partial<SmoothingOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  process = (detections: Detection[], frame: FrameInfo): Detection[] => {
+    const { enabled, window } = this.options;
+    if (!enabled) {
+      this.reset();
+      return detections;
+    }
+    const enterHits = Math.min(this.options.enterHits, window);
+    const exitMisses = Math.min(this.options.exitMisses, window);
+
+    const output: Detection[] = [];
+    const seen = new Set<string>();
+    detections.forEach(detection => {
+      seen.add(detection.id);
+      let track = this.tracks.get(detection.id);
+      if (!track) {
+        track = { filters: Array.from({ length: 5 }, () => new OneEuroFilter()), history: [], confirmed: false, detection };
+        this.tracks.set(detection.id, track);
+      }
+
+      this.record(track, true);
+      track.detection = this.smooth(track, detection, frame);
+      if (!track.confirmed && countSeen(track.history) >= enterHits) {
+        track.confirmed = true;
+        this.emit('enter', track.detection);
+      }
+      if (track.confirmed) {
+        output.push(track.detection);
+      }
+    });
+
+    // Missing objects are held at their last smoothed position until they are confirmed gone
+    this.tracks.forEach((track, id) => {
+      if (seen.has(id)) return;
+      this.record(track, false);
+      const misses = track.history.length - countSeen(track.history);
+      if (track.confirmed) {
+        if (misses >= exitMisses) {
+          this.tracks.delete(id);
+          this.emit('exit', track.detection);
+        } else {
+          output.push(track.detection);
+        }
+      } else if (misses >= window) {
+        this.tracks.delete(id);
+      }
+    });
+
+    return output;
+  };
+
+  reset(): void {
+    this.tracks.forEach(track => {
+      if (track.confirmed) this.emit('exit', track.detection);
+    });
+    this.tracks.clear();
+  }
+
+  private record(track: SmoothedTrack, seen: boolean): void {
+    track.history.push(seen);
+    if (track.history.length > this.options.window) {
+      track.history.splice(0, track.history.length - this.options.window);
+    }
+  }
+
+  // Filter the box in frame-relative units so one beta suits boxes and distances alike
+  private smooth(track: SmoothedTrack, detection: Detection, frame: FrameInfo): Detection {
+    const { minCutoff, beta } = this.options;
+    const scale = [frame.width, frame.height, frame.width, frame.height];
+    const bbox = detection.bbox.map((value, i) =>
+      track.filters[i].filter(value / scale[i], frame.timestamp, minCutoff, beta) * scale[i]
+    ) as BBox;
+    const distance = track.filters[4].filter(detection.distance, frame.timestamp, minCutoff, beta);
+
+    return {
+      ...detection,
+      bbox,
+      distance,
+      // Keep the relative uncertainty of the raw estimate
+      distanceStd: detection.distanceStd === undefined ? undefined : detection.distanceStd * distance / detection.distance,
+      direction: getDirection(bbox[0], bbox[2], frame.width),
+    };
+  }
+}
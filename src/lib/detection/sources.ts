@@ -0,0 +1,263 @@
+import type { FrameInput } from './types';
+
+export type FrameSourceKind = 'camera' | 'video-file' | 'image-sequence' | 'canvas';
+
+// Anything the engine can pull frames from; `element` is what the view displays
+export interface FrameSource {
+  readonly kind: FrameSourceKind;
+  readonly element: HTMLVideoElement | HTMLCanvasElement;
+  readonly width: number;
+  readonly height: number;
+  readonly ended: boolean;
+  start(): Promise<void>;
+  stop(): void;
+  // Current frame, or null while nothing is ready yet
+  getFrame(): FrameInput | null;
+}
+
+const waitForMetadata = (video: HTMLVideoElement): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      resolve();
+      return;
+    }
+    video.onloadedmetadata = () => resolve();
+    video.onerror = () => reject(new Error(video.error?.message || 'Video failed to load'));
+  });
+
+const createVideoElement = (): HTMLVideoElement => {
+  const video = document.createElement('video');
+  video.className = 'w-full h-auto';
+  video.autoplay = true;
+  video.playsInline = true;
+  video.muted = true;
+  return video;
+};
+
+const createCanvasElement = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.className = 'w-full h-auto';
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+abstract class VideoElementSource implements FrameSource {
+  abstract readonly kind: FrameSourceKind;
+  readonly element = createVideoElement();
+
+  get width(): number {
+    return this.element.videoWidth;
+  }
+
+  get height(): number {
+    return this.element.videoHeight;
+  }
+
+  get ended(): boolean {
+    return this.element.ended;
+  }
+
+  abstract start(): Promise<void>;
+  abstract stop(): void;
+
+  getFrame(): FrameInput | null {
+    return this.element.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA ? this.element : null;
+  }
+}
+
+// Live camera via getUserMedia
+export class CameraSource extends VideoElementSource {
+  readonly kind = 'camera';
+  private stream: MediaStream | null = null;
+
+  constructor(private constraints: MediaTrackConstraints = {
+    facingMode: 'environment', // Use back camera on mobile
+    width: { ideal: 640, max: 1280 },
+    height: { ideal: 480, max: 720 },
+    frameRate: { ideal: 30, max: 30 }
+  }) {
+    super();
+  }
+
+  getDeviceId(): string | undefined {
+    return this.stream?.getVideoTracks()[0]?.getSettings().deviceId;
+  }
+
+  async start(): Promise<void> {
+    console.log('Starting camera...');
+    this.stream = await navigator.mediaDevices.getUserMedia({ video: this.constraints });
+    this.element.srcObject = this.stream;
+    await waitForMetadata(this.element);
+    await this.element.play();
+  }
+
+  stop(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.element.srcObject = null;
+  }
+}
+
+// Local or remote video file, for replaying recorded footage
+export class VideoFileSource extends VideoElementSource {
+  readonly kind = 'video-file';
+  private objectUrl: string | null = null;
+
+  constructor(private file: File | string, private options: { loop?: boolean; playbackRate?: number } = {}) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (typeof this.file === 'string') {
+      this.element.src = this.file;
+    } else {
+      this.objectUrl = URL.createObjectURL(this.file);
+      this.element.src = this.objectUrl;
+    }
+    this.element.loop = this.options.loop ?? false;
+    this.element.playbackRate = this.options.playbackRate ?? 1;
+    await waitForMetadata(this.element);
+    await this.element.play();
+  }
+
+  stop(): void {
+    this.element.pause();
+    this.element.removeAttribute('src');
+    this.element.load();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+}
+
+const loadImage = (image: File | string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const element = new Image();
+    const url = typeof image === 'string' ? image : URL.createObjectURL(image);
+    element.onload = () => {
+      if (typeof image !== 'string') URL.revokeObjectURL(url);
+      resolve(element);
+    };
+    element.onerror = () => reject(new Error(`Failed to load image ${typeof image === 'string' ? image : image.name}`));
+    element.src = url;
+  });
+
+// Still images (e.g. extracted frames) played back at a fixed rate
+export class ImageSequenceSource implements FrameSource {
+  readonly kind = 'image-sequence';
+  readonly element = createCanvasElement(0, 0);
+  private images: HTMLImageElement[] = [];
+  private index = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private finished = false;
+
+  constructor(private files: (File | string)[], private options: { fps?: number; loop?: boolean } = {}) {}
+
+  get width(): number {
+    return this.element.width;
+  }
+
+  get height(): number {
+    return this.element.height;
+  }
+
+  get ended(): boolean {
+    return this.finished;
+  }
+
+  async start(): Promise<void> {
+    // Sort local files by name so numbered frames play in order
+    const files = [...this.files].sort((a, b) =>
+      typeof a === 'string' || typeof b === 'string' ? 0 : a.name.localeCompare(b.name, undefined, { numeric: true }));
+    this.images = await Promise.all(files.map(loadImage));
+    if (this.images.length === 0) {
+      throw new Error('Image sequence is empty');
+    }
+
+    this.index = 0;
+    this.finished = false;
+    this.drawCurrent();
+    this.timer = setInterval(() => this.advance(), 1000 / (this.options.fps ?? 10));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.images = [];
+  }
+
+  getFrame(): FrameInput | null {
+    return this.images.length > 0 ? this.element : null;
+  }
+
+  private advance(): void {
+    if (this.index + 1 < this.images.length) {
+      this.index++;
+    } else if (this.options.loop) {
+      this.index = 0;
+    } else {
+      this.finished = true;
+      this.stop();
+      return;
+    }
+    this.drawCurrent();
+  }
+
+  private drawCurrent(): void {
+    const image = this.images[this.index];
+    if (this.element.width !== image.naturalWidth || this.element.height !== image.naturalHeight) {
+      this.element.width = image.naturalWidth;
+      this.element.height = image.naturalHeight;
+    }
+    this.element.getContext('2d')?.drawImage(image, 0, 0);
+  }
+}
+
+export type CanvasDrawCallback = (ctx: CanvasRenderingContext2D, time: number) => void;
+
+// Synthetic frames painted by a callback, useful for demos and reproducing scenes
+export class CanvasSource implements FrameSource {
+  readonly kind = 'canvas';
+  readonly element: HTMLCanvasElement;
+  readonly ended = false;
+  private animationId: number | null = null;
+
+  constructor(private draw: CanvasDrawCallback, width = 640, height = 480) {
+    this.element = createCanvasElement(width, height);
+  }
+
+  get width(): number {
+    return this.element.width;
+  }
+
+  get height(): number {
+    return this.element.height;
+  }
+
+  async start(): Promise<void> {
+    const ctx = this.element.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+    const render = (time: number) => {
+      this.draw(ctx, time);
+      this.animationId = requestAnimationFrame(render);
+    };
+    render(performance.now());
+  }
+
+  stop(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  getFrame(): FrameInput | null {
+    return this.element;
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TILING, IdleGate, computeTiles } from './tiling';
+import type { Prediction } from './types';
+
+const person: Prediction = { class: 'person', bbox: [0, 0, 10, 10], score: 0.9 };
+const cup: Prediction = { class: 'cup', bbox: [20, 20, 5, 5], score: 0.9 };
+
+describe('computeTiles', () => {
+  it('covers the frame with overlapping tiles', () => {
+    const tiles = computeTiles(1000, 500, DEFAULT_TILING);
+    expect(tiles).toHaveLength(4);
+    expect(tiles[0][2]).toBeGreaterThan(500);
+    const [x, y, width, height] = tiles[3];
+    expect(x + width).toBe(1000);
+    expect(y + height).toBe(500);
+  });
+});
+
+describe('IdleGate', () => {
+  it('opens only after the detections have been stable for a few frames', () => {
+    const gate = new IdleGate();
+    gate.observe([person]);
+    expect(gate.take(0, 1000)).toBe(false);
+    for (let i = 0; i < 5; i++) gate.observe([person]);
+    expect(gate.take(100, 1000)).toBe(true);
+
+    gate.observe([person, cup]);
+    expect(gate.take(2000, 1000)).toBe(false);
+  });
+
+  it('keeps tiled passes at least the interval apart', () => {
+    const gate = new IdleGate();
+    expect(gate.take(0, 1000, true)).toBe(true);
+    expect(gate.take(500, 1000, true)).toBe(false);
+    expect(gate.take(1000, 1000, true)).toBe(true);
+  });
+
+  it('stays closed while the motion detector sees movement', () => {
+    const gate = new IdleGate();
+    for (let i = 0; i < 10; i++) gate.observe([person]);
+    expect(gate.take(0, 1000, false)).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import * as tf from '@tensorflow/tfjs';
+import { intersectionOverSmaller } from './geometry';
+import { nonMaxSuppression } from './nms';
+import type { BBox, DetectOptions, DetectionModel, FrameInput, Prediction } from './types';
+
+// 'idle' runs the tiled pass only while the scene is still, at most once per idleInterval
+export type TilingMode = 'off' | 'always' | 'idle';
+
+export interface TilingOptions {
+  mode: TilingMode;
+  rows: number;
+  cols: number;
+  overlap: number;  // Fraction of a tile shared with its neighbour (0..0.5)
+  idleInterval: number;  // ms between two tiled passes in 'idle' mode
+}
+
+export const DEFAULT_TILING: TilingOptions = {
+  mode: 'off',
+  rows: 2,
+  cols: 2,
+  overlap: 0.2,
+  idleInterval: 2000,
+};
+
+// Frames with the same detected classes before the scene counts as still, when motion detection is off
+const STABLE_FRAMES = 5;
+
+// Boxes whose overlap with a kept box exceeds this (intersection over smaller) are merged away
+const MERGE_THRESHOLD = 0.6;
+
+// Overlapping grid of [x, y, width, height] tiles covering the frame
+export const computeTiles = (width: number, height: number, { rows, cols, overlap }: TilingOptions): BBox[] => {
+  const tileWidth = width / (cols - overlap * (cols - 1));
+  const tileHeight = height / (rows - overlap * (rows - 1));
+  const tiles: BBox[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = Math.round(col * tileWidth * (1 - overlap));
+      const y = Math.round(row * tileHeight * (1 - overlap));
+      tiles.push([x, y, Math.min(Math.round(tileWidth), width - x), Math.min(Math.round(tileHeight), height - y)]);
+    }
+  }
+  return tiles;
+};
+
+let cropCanvas: HTMLCanvasElement | null = null;
+let sourceCanvas: HTMLCanvasElement | null = null;
+
+// Crop a tile out of the frame; tensor crops must be disposed by the caller
+const cropFrame = (input: FrameInput, [x, y, width, height]: BBox): FrameInput => {
+  if (input instanceof tf.Tensor) {
+    return tf.slice(input, [y, x, 0], [height, width, input.shape[2]]);
+  }
+
+  let drawable: CanvasImageSource;
+  if (input instanceof ImageData) {
+    sourceCanvas ??= document.createElement('canvas');
+    sourceCanvas.width = input.width;
+    sourceCanvas.height = input.height;
+    sourceCanvas.getContext('2d').putImageData(input, 0, 0);
+    drawable = sourceCanvas;
+  } else {
+    drawable = input;
+  }
+
+  cropCanvas ??= document.createElement('canvas');
+  cropCanvas.width = width;
+  cropCanvas.height = height;
+  cropCanvas.getContext('2d').drawImage(drawable, x, y, width, height, 0, 0, width, height);
+  return cropCanvas;
+};
+
+// Run the model on the full frame plus every tile and merge the results in frame coordinates
+export const detectTiled = async (
+  model: DetectionModel,
+  input: FrameInput,
+  frameSize: { width: number; height: number },
+  tiling: TilingOptions,
+  options?: DetectOptions,
+): Promise<Prediction[]> => {
+  const predictions = await model.detect(input, options);
+
+  for (const tile of computeTiles(frameSize.width, frameSize.height, tiling)) {
+    const crop = cropFrame(input, tile);
+    try {
+      const tilePredictions = await model.detect(crop, options);
+      tilePredictions.forEach(({ bbox: [x, y, width, height], ...rest }) => {
+        predictions.push({ ...rest, bbox: [x + tile[0], y + tile[1], width, height] });
+      });
+    } finally {
+      if (crop instanceof tf.Tensor) crop.dispose();
+    }
+  }
+
+  return nonMaxSuppression(predictions, MERGE_THRESHOLD, true, intersectionOverSmaller);
+};
+
+// Decides when the 'idle' mode runs a tiled pass: the scene must be still (no motion, or the same
+// classes detected for a few frames) and the previous tiled pass at least idleInterval ago
+export class IdleGate {
+  private lastPass = -Infinity;
+  private signature = '';
+  private stableFrames = 0;
+
+  // Feed the detections of every frame
+  observe(detections: Prediction[]): void {
+    const signature = detections.map(detection => detection.class).sort().join();
+    this.stableFrames = signature === this.signature ? this.stableFrames + 1 : 0;
+    this.signature = signature;
+  }
+
+  // sceneStatic comes from the motion detector; without it the detections decide
+  take(timestamp: number, interval: number, sceneStatic?: boolean): boolean {
+    const still = sceneStatic ?? this.stableFrames >= STABLE_FRAMES;
+    if (!still || timestamp - this.lastPass < interval) return false;
+    this.lastPass = timestamp;
+    return true;
+  }
+
+  reset(): void {
+    this.lastPass = -Infinity;
+    this.signature = '';
+    this.stableFrames = 0;
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectTracker } from './tracker';
+import type { BBox, Detection, FrameInfo } from './types';
+
+const frame = (timestamp: number): FrameInfo => ({ width: 640, height: 480, timestamp });
+
+const detection = (cls: string, bbox: BBox, id = 'raw'): Detection => ({
+  id, class: cls, bbox, score: 0.9, distance: 3, direction: 'Center',
+});
+
+describe('ObjectTracker', () => {
+  it('keeps the id of an object moving between frames', () => {
+    const tracker = new ObjectTracker();
+    const [first] = tracker.process([detection('person', [100, 100, 50, 100])], frame(0));
+    const [second] = tracker.process([detection('person', [110, 100, 50, 100])], frame(100));
+    expect(second.id).toBe(first.id);
+    expect(tracker.getTotalCount()).toBe(1);
+  });
+
+  it('does not match objects of different classes', () => {
+    const tracker = new ObjectTracker();
+    const [person] = tracker.process([detection('person', [100, 100, 50, 100])], frame(0));
+    const [dog] = tracker.process([detection('dog', [100, 100, 50, 100])], frame(100));
+    expect(dog.id).not.toBe(person.id);
+  });
+
+  it('gives each of two overlapping candidates its own track', () => {
+    const tracker = new ObjectTracker();
+    const first = tracker.process([detection('car', [0, 0, 100, 100]), detection('car', [300, 0, 100, 100])], frame(0));
+    const second = tracker.process([detection('car', [305, 0, 100, 100]), detection('car', [5, 0, 100, 100])], frame(100));
+    expect(second.map(d => d.id)).toEqual([first[1].id, first[0].id]);
+  });
+
+  it('keeps the id when a box changes shape in place, but not when it jumps', () => {
+    const tracker = new ObjectTracker();
+    const [standing] = tracker.process([detection('person', [100, 100, 60, 180])], frame(0));
+    const [lying] = tracker.process([detection('person', [70, 230, 170, 60])], frame(200));
+    expect(lying.id).toBe(standing.id);
+
+    const [far] = tracker.process([detection('person', [500, 230, 170, 60])], frame(400));
+    expect(far.id).not.toBe(standing.id);
+  });
+
+  it('survives short occlusions and emits exit after maxAge', () => {
+    const tracker = new ObjectTracker({ maxAge: 500 });
+    const exits: string[] = [];
+    tracker.on('exit', track => exits.push(track.id));
+
+    const [first] = tracker.process([detection('person', [100, 100, 50, 100])], frame(0));
+    tracker.process([], frame(300));
+    const [again] = tracker.process([detection('person', [100, 100, 50, 100])], frame(400));
+    expect(again.id).toBe(first.id);
+
+    tracker.process([], frame(1000));
+    expect(exits).toEqual([first.id]);
+    expect(tracker.getTracks()).toHaveLength(0);
+  });
+
+  it('reports tracks only after minHits matches', () => {
+    const tracker = new ObjectTracker({ minHits: 2 });
+    expect(tracker.process([detection('person', [100, 100, 50, 100])], frame(0))).toHaveLength(0);
+    expect(tracker.process([detection('person', [100, 100, 50, 100])], frame(100))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,201 @@
+import { TypedEmitter } from './emitter';
+import { iou } from './geometry';
+import type { BBox, Detection, FrameInfo } from './types';
+
+export interface Track {
+  id: string;
+  class: string;
+  bbox: BBox;
+  velocity: BBox;  // Change of x, y, width, height per ms
+  hits: number;
+  misses: number;
+  firstSeen: number;
+  lastSeen: number;
+  detection: Detection;
+}
+
+export interface TrackerEvents {
+  enter: Track;
+  update: Track;
+  exit: Track;
+}
+
+export interface TrackerOptions {
+  iouThreshold?: number;    // Minimum IoU between prediction and detection to match
+  maxAge?: number;          // ms a track survives without a match (short occlusions)
+  minHits?: number;         // Matches needed before a track is reported
+  maxCenterShift?: number;  // Boxes left unmatched by IoU whose center moved less than this share of the track's larger side
+}
+
+const DEFAULT_OPTIONS: Required<TrackerOptions> = {
+  iouThreshold: 0.3,
+  maxAge: 1000,
+  minHits: 1,
+  maxCenterShift: 0.6,
+};
+
+// Weight of the newest velocity sample
+const VELOCITY_SMOOTHING = 0.5;
+
+const predictBBox = (track: Track, timestamp: number): BBox => {
+  const dt = timestamp - track.lastSeen;
+  return track.bbox.map((value, i) => value + track.velocity[i] * dt) as BBox;
+};
+
+const centerDistance = ([ax, ay, aw, ah]: BBox, [bx, by, bw, bh]: BBox): number =>
+  Math.hypot(ax + aw / 2 - (bx + bw / 2), ay + ah / 2 - (by + bh / 2));
+
+// SORT-style tracker: constant-velocity prediction plus greedy class-aware IoU matching, with a
+// center-distance fallback for boxes that change shape
+export class ObjectTracker extends TypedEmitter<TrackerEvents> {
+  private options: Required<TrackerOptions>;
+  private tracks = new Map<string, Track>();
+  private nextId = 1;
+
+  constructor(options: TrackerOptions = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getOptions(): Readonly<Required<TrackerOptions>> {
+    return this.options;
+  }
+
+  getTracks(): Track[] {
+    return [...this.tracks.values()];
+  }
+
+  // Number of distinct tracks created since the last reset
+  getTotalCount(): number {
+    return this.nextId - 1;
+  }
+
+  // Postprocessor entry point: replaces per-frame ids with persistent track ids
+  process = (detections: Detection[], frame: FrameInfo): Detection[] => {
+    const { iouThreshold, maxAge, minHits, maxCenterShift } = this.options;
+    const tracks = this.getTracks();
+    const predicted = tracks.map(track => predictBBox(track, frame.timestamp));
+
+    // Score every same-class pair and assign greedily, best IoU first
+    const candidates: { trackIndex: number; detectionIndex: number; overlap: number }[] = [];
+    tracks.forEach((track, trackIndex) => {
+      detections.forEach((detection, detectionIndex) => {
+        if (detection.class !== track.class) return;
+        const overlap = iou(predicted[trackIndex], detection.bbox);
+        if (overlap >= iouThreshold) {
+          candidates.push({ trackIndex, detectionIndex, overlap });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.overlap - a.overlap);
+
+    const matchedTracks = new Set<number>();
+    const assignments = new Map<number, Track>();
+    for (const { trackIndex, detectionIndex } of candidates) {
+      if (matchedTracks.has(trackIndex) || assignments.has(detectionIndex)) continue;
+      matchedTracks.add(trackIndex);
+      assignments.set(detectionIndex, tracks[trackIndex]);
+    }
+
+    // Second pass over what is left: a box whose shape changed overlaps too little, but its
+    // center stays close, so match those nearest first
+    const shifted: { trackIndex: number; detectionIndex: number; shift: number }[] = [];
+    tracks.forEach((track, trackIndex) => {
+      if (matchedTracks.has(trackIndex)) return;
+      const [, , width, height] = track.bbox;
+      detections.forEach((detection, detectionIndex) => {
+        if (assignments.has(detectionIndex) || detection.class !== track.class) return;
+        const shift = centerDistance(predicted[trackIndex], detection.bbox) / Math.max(width, height);
+        if (shift <= maxCenterShift) {
+          shifted.push({ trackIndex, detectionIndex, shift });
+        }
+      });
+    });
+    shifted.sort((a, b) => a.shift - b.shift);
+
+    const reshaped = new Set<number>();
+    for (const { trackIndex, detectionIndex } of shifted) {
+      if (matchedTracks.has(trackIndex) || assignments.has(detectionIndex)) continue;
+      matchedTracks.add(trackIndex);
+      assignments.set(detectionIndex, tracks[trackIndex]);
+      reshaped.add(detectionIndex);
+    }
+
+    const output: Detection[] = [];
+    detections.forEach((detection, detectionIndex) => {
+      let track = assignments.get(detectionIndex);
+      if (track) {
+        this.updateTrack(track, detection, frame.timestamp, reshaped.has(detectionIndex));
+      } else {
+        track = this.createTrack(detection, frame.timestamp);
+      }
+
+      const tracked = { ...detection, id: track.id };
+      track.detection = tracked;
+      if (track.hits === minHits) {
+        this.emit('enter', track);
+      } else if (track.hits > minHits) {
+        this.emit('update', track);
+      }
+      if (track.hits >= minHits) {
+        output.push(tracked);
+      }
+    });
+
+    // Age out tracks that have not been matched for too long
+    tracks.forEach((track, trackIndex) => {
+      if (matchedTracks.has(trackIndex)) return;
+      track.misses++;
+      if (frame.timestamp - track.lastSeen > maxAge) {
+        this.removeTrack(track);
+      }
+    });
+
+    return output;
+  };
+
+  reset(): void {
+    this.getTracks().forEach(track => this.removeTrack(track));
+    this.nextId = 1;
+  }
+
+  private createTrack(detection: Detection, timestamp: number): Track {
+    const track: Track = {
+      id: `${detection.class}-${this.nextId++}`,
+      class: detection.class,
+      bbox: detection.bbox,
+      velocity: [0, 0, 0, 0],
+      hits: 1,
+      misses: 0,
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+      detection,
+    };
+    this.tracks.set(track.id, track);
+    return track;
+  }
+
+  // A reshaped box says nothing about motion, so its velocity starts over
+  private updateTrack(track: Track, detection: Detection, timestamp: number, reshaped = false): void {
+    const dt = timestamp - track.lastSeen;
+    if (reshaped) {
+      track.velocity = [0, 0, 0, 0];
+    } else if (dt > 0) {
+      track.velocity = track.velocity.map((previous, i) => {
+        const sample = (detection.bbox[i] - track.bbox[i]) / dt;
+        return previous + VELOCITY_SMOOTHING * (sample - previous);
+      }) as BBox;
+    }
+    track.bbox = detection.bbox;
+    track.hits++;
+    track.misses = 0;
+    track.lastSeen = timestamp;
+  }
+
+  private removeTrack(track: Track): void {
+    this.tracks.delete(track.id);
+    if (track.hits >= this.options.minHits) {
+      this.emit('exit', track);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import type * as tf from '@tensorflow/tfjs';
+
+// [x, y, width, height] in frame pixels
+export type BBox = [number, number, number, number];
+
+export type Direction = 'Left' | 'Center' | 'Right';
+
+// Raw model output before distance estimation and postprocessing
+export interface Prediction {
+  bbox: BBox;
+  class: string;
+  score: number;
+}
+
+// Finer label from a second-stage classifier, e.g. "golden retriever" for a dog
+export interface Refinement {
+  label: string;
+  score: number;
+}
+
+// Body keypoint in frame pixels (COCO keypoint names such as "left_hip")
+export interface Keypoint {
+  name: string;
+  x: number;
+  y: number;
+  score: number;
+}
+
+export type Posture = 'standing' | 'sitting' | 'lying' | 'unknown';
+
+export interface PoseResult {
+  keypoints: Keypoint[];
+  posture: Posture;
+  score: number;
+}
+
+// How a detection's distance was obtained
+export type DistanceSource = 'known-height' | 'depth' | 'ground' | 'fused';
+
+export interface Detection extends Prediction {
+  id: string;
+  distance: number;
+  distanceStd?: number;             // One standard deviation of the distance in meters
+  distanceSource?: DistanceSource;  // Set when a depth model or the ground plane adjusted the distance
+  distanceConflict?: boolean;       // Known-height and ground-plane estimates disagreed
+  direction: Direction;
+  refinement?: Refinement;
+  pose?: PoseResult;  // Only on people, when pose estimation is enabled
+}
+
+// Anything a detection model can read pixels from
+export type FrameInput =
+  | tf.Tensor3D
+  | ImageData
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | HTMLVideoElement;
+
+export interface FrameInfo {
+  width: number;
+  height: number;
+  timestamp: number;
+}
+
+// A frame as it enters the pipeline
+export interface FrameEvent {
+  input: FrameInput;
+  frame: FrameInfo;
+}
+
+// A frame together with the final, postprocessed detections
+export interface FrameResult extends FrameEvent {
+  detections: Detection[];
+  predictions: Prediction[];  // Raw detector output, before any filtering
+}
+
+// Detector-side limits, applied by the model before any engine filtering
+export interface DetectOptions {
+  maxBoxes?: number;
+  minScore?: number;
+}
+
+export interface DetectionModel {
+  readonly name: string;
+  readonly backend?: string;  // TF.js backend the model runs on
+  detect(input: FrameInput, options?: DetectOptions): Promise<Prediction[]>;
+  dispose?(): void;
+}
+
+// Runs after distance/direction are computed; may filter, reorder or annotate
+export type Postprocessor = (detections: Detection[], frame: FrameInfo) => Detection[];
+
+// Async stage after the postprocessors that can read the frame's pixels, e.g. to classify crops
+export type Refiner = (input: FrameInput, detections: Detection[], frame: FrameInfo) => Promise<Detection[]>;
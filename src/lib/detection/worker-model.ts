@@ -0,0 +1,118 @@
+import * as tf from '@tensorflow/tfjs';
+import type { BackendBenchmark, BackendPreference } from './backends';
+import { loadModel, type LoadModelOptions, type ModelSpec } from './registry';
+import type { DetectOptions, DetectionModel, FrameInput, Prediction } from './types';
+
+// Messages from the main thread to the inference worker
+export type WorkerRequest =
+  | { type: 'load'; spec: ModelSpec; backend?: BackendPreference }
+  | { type: 'detect'; id: number; frame: ImageBitmap; options?: DetectOptions };
+
+// Messages from the inference worker back to the main thread
+export type WorkerResponse =
+  | { type: 'status'; status: string }
+  | { type: 'benchmark'; results: BackendBenchmark[] }
+  | { type: 'progress'; fraction: number }
+  | { type: 'loaded'; name: string; backend: string }
+  | { type: 'detections'; id: number; predictions: Prediction[] }
+  | { type: 'error'; id?: number; message: string };
+
+type StatusCallback = (status: string) => void;
+
+export const isWorkerInferenceSupported = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function';
+
+const toImageBitmap = async (input: FrameInput): Promise<ImageBitmap> => {
+  if (input instanceof tf.Tensor) {
+    const [height, width] = input.shape;
+    const pixels = await tf.browser.toPixels(input);
+    return createImageBitmap(new ImageData(pixels, width, height));
+  }
+  return createImageBitmap(input);
+};
+
+// Load a model inside a dedicated worker and proxy detect() calls to it by message passing
+export const loadWorkerModel = (spec: ModelSpec, onStatus?: StatusCallback, options: LoadModelOptions = {}): Promise<DetectionModel> => {
+  if (spec.type === 'graph' && typeof spec.decoder === 'function') {
+    return Promise.reject(new Error('Custom decoder functions cannot be sent to a worker'));
+  }
+
+  const worker = new Worker(new URL('./inference.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (predictions: Prediction[]) => void; reject: (error: Error) => void }>();
+  let nextId = 1;
+
+  const failAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  return new Promise((resolve, reject) => {
+    worker.onerror = event => {
+      const error = new Error(event.message || 'Inference worker crashed');
+      failAll(error);
+      reject(error);
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'status':
+          onStatus?.(message.status);
+          break;
+        case 'benchmark':
+          options.onBenchmark?.(message.results);
+          break;
+        case 'progress':
+          options.onProgress?.(message.fraction);
+          break;
+        case 'loaded':
+          resolve({
+            name: `${message.name} (worker)`,
+            backend: message.backend,
+            detect: async (input: FrameInput, options?: DetectOptions) => {
+              const frame = await toImageBitmap(input);
+              const id = nextId++;
+              return new Promise<Prediction[]>((resolveDetect, rejectDetect) => {
+                pending.set(id, { resolve: resolveDetect, reject: rejectDetect });
+                worker.postMessage({ type: 'detect', id, frame, options } satisfies WorkerRequest, [frame]);
+              });
+            },
+            dispose: () => {
+              failAll(new Error('Inference worker terminated'));
+              worker.terminate();
+            },
+          });
+          break;
+        case 'detections':
+          pending.get(message.id)?.resolve(message.predictions);
+          pending.delete(message.id);
+          break;
+        case 'error':
+          if (message.id === undefined) {
+            worker.terminate();
+            reject(new Error(message.message));
+          } else {
+            pending.get(message.id)?.reject(new Error(message.message));
+            pending.delete(message.id);
+          }
+          break;
+      }
+    };
+
+    worker.postMessage({ type: 'load', spec, backend: options.backend } satisfies WorkerRequest);
+  });
+};
+
+// Prefer worker inference, falling back to the main thread when workers or OffscreenCanvas are unavailable
+export const loadModelPreferWorker = async (spec: ModelSpec, onStatus?: StatusCallback, options: LoadModelOptions = {}): Promise<DetectionModel> => {
+  if (isWorkerInferenceSupported()) {
+    try {
+      return await loadWorkerModel(spec, onStatus, options);
+    } catch (error) {
+      console.warn('Worker inference unavailable, using main thread:', error);
+    }
+  }
+  return loadModel(spec, onStatus, options);
+};
@@ -1,10 +1,16 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
+
+// Weights exist only after `npm run fetch:models`
+const DEFAULT_MODEL_DIR = "public/models/coco-ssd/lite_mobilenet_v2";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
+  // GitHub Pages serves the app from a subpath; the Capacitor build ("mobile" mode) from the root
   base: mode === 'production' ? '/camera-object-detection/' : '/',
   server: {
     host: "::",
@@ -14,6 +20,43 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    VitePWA({
+      registerType: 'prompt',
+      includeAssets: ['favicon.ico'],
+      manifest: {
+        name: 'Object Detection PoC - Real-time Spatial Awareness',
+        short_name: 'Object Detection',
+        description: 'Mobile object detection with real-time spatial awareness using TensorFlow.js',
+        theme_color: '#0f172a',
+        background_color: '#0f172a',
+        display: 'standalone',
+        orientation: 'portrait',
+        icons: [
+          { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        // App shell, inference worker, WASM binaries and the default model's shards
+        globPatterns: [
+          '**/*.{js,css,html,ico,png,svg,wasm}',
+          ...(fs.existsSync(path.resolve(__dirname, DEFAULT_MODEL_DIR)) ? ['models/coco-ssd/lite_mobilenet_v2/*'] : []),
+        ],
+        maximumFileSizeToCacheInBytes: 30 * 1024 * 1024,
+        runtimeCaching: [
+          {
+            // Other self-hosted bases and the CDN fallback are cached once used
+            urlPattern: ({ url }) => url.pathname.includes('/models/') || url.hostname === 'storage.googleapis.com',
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'model-weights',
+              cacheableResponse: { statuses: [200] },
+            },
+          },
+        ],
+      },
+    }),
   ].filter(Boolean),
   resolve: {
     alias: {